@@ -0,0 +1,190 @@
+// @vitest-environment node
+import { createFormPersister } from "./core";
+import { PersistStorage } from "./storage/types";
+import { MemoryStorage } from "./testing";
+
+interface Values {
+  name: string;
+  password: string;
+  cards: { number: string; cvv: string }[];
+}
+
+const values: Values = {
+  name: "Alice",
+  password: "secret",
+  cards: [{ number: "4111", cvv: "123" }]
+};
+
+describe("createFormPersister", () => {
+  test("runs without a DOM", () => {
+    expect(typeof window).toBe("undefined");
+    expect(createFormPersister({ key: "form" }).load()).toBeUndefined();
+  });
+
+  test("saves filtered values in a versioned envelope and loads them", () => {
+    const storage = new MemoryStorage();
+    const persister = createFormPersister<Values>({
+      key: "form",
+      storage,
+      version: "2",
+      exclude: ["password", "cards.*.cvv"]
+    });
+
+    persister.save(values, { savedAt: 1000 });
+
+    expect(JSON.parse(storage.getItem("form")!)).toEqual({
+      version: "2",
+      savedAt: 1000,
+      data: { name: "Alice", cards: [{ number: "4111" }] }
+    });
+    expect(persister.load()).toEqual({
+      version: "2",
+      savedAt: 1000,
+      data: { name: "Alice", cards: [{ number: "4111" }] }
+    });
+  });
+
+  test("clears the draft and notifies subscribers", () => {
+    const storage = new MemoryStorage();
+    const persister = createFormPersister<Values>({ key: "form", storage });
+    const listener = vi.fn();
+    const unsubscribe = persister.subscribe(listener);
+
+    persister.save({ name: "Alice" });
+    persister.clear();
+    unsubscribe();
+    persister.save({ name: "Bob" });
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+      "save",
+      "clear"
+    ]);
+    expect(listener.mock.calls[0][0].data.data).toEqual({ name: "Alice" });
+    expect(storage.getItem("form")).toContain("Bob");
+  });
+
+  test("migrates older drafts and writes them back", () => {
+    const storage = new MemoryStorage();
+    storage.setItem(
+      "form",
+      JSON.stringify({ version: "1", savedAt: 5, data: { fullName: "Alice" } })
+    );
+
+    const persister = createFormPersister<{ name: string }>({
+      key: "form",
+      storage,
+      version: "2",
+      migrations: { "1->2": ({ fullName }) => ({ name: fullName }) }
+    });
+
+    expect(persister.load()).toEqual({
+      version: "2",
+      savedAt: 5,
+      data: { name: "Alice" }
+    });
+    expect(JSON.parse(storage.getItem("form")!).version).toBe("2");
+  });
+
+  test("removes expired and unparseable drafts", () => {
+    const storage = new MemoryStorage();
+    const onError = vi.fn();
+    const persister = createFormPersister({ key: "form", storage, onError });
+
+    storage.setItem(
+      "form",
+      JSON.stringify({ version: "1", expiresAt: 1, data: { name: "Alice" } })
+    );
+    expect(persister.load()).toBeUndefined();
+    expect(storage.getItem("form")).toBeNull();
+
+    storage.setItem("form", "{not json");
+    expect(persister.load()).toBeUndefined();
+    expect(storage.getItem("form")).toBeNull();
+    expect(onError).toHaveBeenCalledWith("parse", expect.any(SyntaxError));
+  });
+
+  test("works with promise based storages", async () => {
+    const sync = new MemoryStorage();
+    const storage: PersistStorage = {
+      getItem: async (key) => sync.getItem(key),
+      setItem: async (key, value) => sync.setItem(key, value),
+      removeItem: async (key) => sync.removeItem(key)
+    };
+    const persister = createFormPersister<Values>({ key: "form", storage });
+
+    await persister.save({ name: "Alice" });
+
+    expect((await persister.load())?.data).toEqual({ name: "Alice" });
+  });
+
+  test("redacts marked and sensitive fields", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const persister = createFormPersister<Values & { nickname: string }>({
+      key: "form",
+      redact: true
+    });
+    persister.markSensitive("nickname");
+
+    expect(persister.filter({ ...values, nickname: "al" })).toEqual({
+      name: "Alice",
+      cards: [{ number: "4111" }]
+    });
+    warn.mockRestore();
+  });
+
+  test("sends events to onEvent and the logger", () => {
+    const storage = new MemoryStorage();
+    storage.setItem("form", JSON.stringify({ version: "1", data: {} }));
+    const onEvent = vi.fn();
+    const logger = { debug: vi.fn(), warn: vi.fn() };
+    const persister = createFormPersister<Values>({
+      key: "form",
+      storage,
+      version: "2",
+      onEvent,
+      logger
+    });
+
+    persister.load();
+    persister.save({ name: "Alice" });
+    storage.setItem("form", "{");
+    persister.load();
+
+    expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+      "version-mismatch",
+      "save",
+      "error",
+      "clear"
+    ]);
+    expect(onEvent.mock.calls[0][0]).toEqual({
+      type: "version-mismatch",
+      key: "form",
+      stored: "1",
+      current: "2"
+    });
+    expect(logger.debug).toHaveBeenCalledWith("[form] save", expect.anything());
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Version mismatch: stored=1, current=2"
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Failed to parse stored data",
+      expect.any(SyntaxError)
+    );
+  });
+
+  test("reads the stored draft as is", () => {
+    const storage = new MemoryStorage();
+    const expired = { version: "1", data: { name: "Alice" }, expiresAt: 1 };
+    storage.setItem("form", JSON.stringify(expired));
+    const persister = createFormPersister<Values>({ key: "form", storage });
+
+    expect(persister.read()).toEqual({
+      raw: JSON.stringify(expired),
+      envelope: expired
+    });
+    expect(storage.getItem("form")).not.toBeNull();
+
+    storage.setItem("form", "{");
+    expect(persister.read()).toEqual({ raw: "{" });
+  });
+});
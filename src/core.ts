@@ -0,0 +1,531 @@
+import { FieldValues } from "react-hook-form";
+import { omitIn, pickIn } from "./internal/deep-copy";
+import { attempt, chain, MaybePromise } from "./internal/maybe-promise";
+import {
+  findMigrationPath,
+  MigrationReport,
+  Migrations,
+  runMigrations
+} from "./internal/migrate";
+import { PathPattern } from "./internal/path-pattern";
+import { findSensitivePaths } from "./internal/redact";
+import { DEFAULT_PARSER } from "./parsers/default";
+import { DecryptionError } from "./parsers/encrypted";
+import {
+  PersistedMeta,
+  PersistParser,
+  Version,
+  VersionedData
+} from "./parsers/types";
+import { forgetDraft, isQuotaError, writeWithinBudget } from "./storage/quota";
+import { PersistStorage } from "./storage/types";
+
+declare const process: { env: { NODE_ENV?: string } } | undefined;
+
+const IS_DEV =
+  typeof process !== "undefined" && process.env.NODE_ENV !== "production";
+export const INITIAL_VERSION = "1";
+
+/**
+ * The kind of failure reported to `onError`.
+ * - `read` / `write`: the storage failed
+ * - `parse` / `serialize`: the parser failed
+ * - `decrypt`: stored data was tampered with or encrypted with another key
+ * - `quota`: the draft does not fit in the storage or in `maxBytes`, it was not saved
+ * - `sync`: the `remote` adapter failed, pushes are retried
+ */
+export type PersistErrorKind =
+  "read" | "write" | "parse" | "serialize" | "decrypt" | "quota" | "sync";
+
+/**
+ * Options for automatic redaction of sensitive fields.
+ */
+export interface RedactOptions<T extends FieldValues> {
+  /** Fields that are persisted even though they look sensitive. */
+  allow?: PathPattern<T>[];
+}
+
+/**
+ * Receives debug output and warnings, e.g. `console`.
+ */
+export interface PersistLogger {
+  debug(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+}
+
+/**
+ * Options for `createFormPersister`.
+ *
+ * @template T - The shape of your form values.
+ */
+export interface FormPersisterOptions<T extends FieldValues> {
+  key: string;
+
+  /**
+   * Fields to exclude from persistence. Accepts paths and glob-style patterns,
+   * see `PathPattern`. Applied after `include`.
+   * @example ['password', 'payments.*.cvv', '**.token']
+   */
+  exclude?: PathPattern<T>[];
+
+  /**
+   * Fields to include in persistence. If specified, only these fields will be persisted.
+   * Accepts paths and glob-style patterns, see `PathPattern`.
+   * @example ['email', 'preferences.notifications', 'contacts.[0-2].phone']
+   */
+  include?: PathPattern<T>[];
+
+  /**
+   * Exclude sensitive fields automatically: fields marked with `markSensitive`
+   * (`useFormPersist` marks inputs registered with `type="password"`,
+   * `autocomplete="cc-*"` or `autocomplete="one-time-code"`), and fields named like
+   * passwords, tokens, card numbers or CVVs. Applied after `include` / `exclude`.
+   * Auto-redacted paths are logged with `console.warn` outside production.
+   * @example { allow: ['passwordHint'] }
+   */
+  redact?: boolean | RedactOptions<T>;
+
+  /**
+   * The storage to use. Defaults to localStorage.
+   * You can provide your own storage implementation, synchronous or promise based,
+   * that matches the PersistStorage interface.
+   */
+  storage?: PersistStorage;
+
+  /**
+   * Custom parser for serialization/deserialization, synchronous or promise based.
+   * Defaults to JSON.stringify / JSON.parse.
+   * Use `createStructuredParser` to keep Date, Map, Set, BigInt and File values,
+   * and `createEncryptedParser` to encrypt drafts at rest.
+   */
+  parser?: PersistParser<T>;
+
+  version?: Version;
+  onVersionMismatch?: (storedVersion: Version, currentVersion: Version) => void;
+
+  /**
+   * Steps that upgrade stored data to the current version, keyed as `"<from>-><to>"`.
+   * Steps are chained when the stored version is several versions behind.
+   * `onVersionMismatch` is only called when no migration path exists.
+   * @example { "1->2": (data) => ({ ...data, fullName: data.name }) }
+   */
+  migrations?: Migrations;
+
+  /**
+   * Called after migrations ran, with the steps that succeeded or the step that failed.
+   */
+  onMigrate?: (report: MigrationReport) => void;
+
+  /**
+   * Expire drafts this many milliseconds after they were saved.
+   * The expiry is stamped into the stored data as `expiresAt`.
+   */
+  ttl?: number;
+
+  /**
+   * Skip drafts saved more than this many milliseconds ago.
+   * Unlike `ttl`, this is checked against `savedAt` when restoring,
+   * so it also applies to drafts saved before the option was set.
+   */
+  maxAge?: number;
+
+  /**
+   * The most bytes (counted as UTF-16) that drafts with a budget may use together.
+   * Drafts that do not fit are not saved and reported as "quota",
+   * unless `evict` makes room.
+   */
+  maxBytes?: number;
+
+  /**
+   * Make room when a draft does not fit in `maxBytes` or the storage is full.
+   * "lru" removes the least recently saved drafts written with `maxBytes` or `evict`.
+   */
+  evict?: "lru";
+
+  /**
+   * Called when reading, writing or parsing persisted data fails.
+   * Undecryptable data is reported as "decrypt" and kept in storage,
+   * unparseable data is reported as "parse" and removed.
+   * Failures are logged with `console.warn` when not provided.
+   */
+  onError?: (kind: PersistErrorKind, error: unknown) => void;
+
+  /**
+   * Called with every event: restores, skipped fields, saves, clears,
+   * version mismatches and errors. See `PersisterEvent`.
+   */
+  onEvent?: (event: PersisterEvent<T>) => void;
+
+  /**
+   * Log every event with `logger.debug`, and warnings with `logger.warn`
+   * instead of `console.warn`.
+   * @example { logger: console }
+   */
+  logger?: PersistLogger;
+}
+
+/**
+ * Options for a single `save`.
+ */
+export interface SaveOptions<T extends FieldValues> {
+  /** When the values were saved. Defaults to now. */
+  savedAt?: number;
+  /** Undo and redo snapshots to store alongside the values. */
+  history?: VersionedData<T>["history"];
+  /** Form state to store alongside the values. */
+  meta?: PersistedMeta;
+}
+
+/**
+ * Something that happened to the draft of a form.
+ * - `restore:start` / `restore:end`: the form started and finished restoring, with the draft that was read
+ * - `restore:skip-field`: a stored field was not restored: it does not exist in the form or fails the `schema`
+ * - `save` / `clear`: the draft was written or removed
+ * - `version-mismatch`: the draft has another version and no migration path
+ * - `error`: the same failures as `onError`
+ */
+export type PersisterEvent<T extends FieldValues> =
+  | { type: "restore:start"; key: string }
+  | { type: "restore:skip-field"; key: string; path: string; reason: string }
+  | { type: "restore:end"; key: string; data?: Partial<T> }
+  | { type: "save"; key: string; data: VersionedData<T>; raw: string }
+  | { type: "clear"; key: string }
+  | { type: "version-mismatch"; key: string; stored: Version; current: Version }
+  | { type: "error"; key: string; kind: PersistErrorKind; error: unknown };
+
+/**
+ * A stored draft, as read by `FormPersister.read`.
+ */
+export interface StoredDraft<T extends FieldValues> {
+  raw: string;
+  /** The parsed draft, missing when it could not be parsed. */
+  envelope?: VersionedData<T>;
+}
+
+/**
+ * Reads and writes the draft of one form, independently of any UI framework.
+ *
+ * @template T - The shape of your form values.
+ */
+export interface FormPersister<T extends FieldValues> {
+  /**
+   * Read the stored draft. Expired and unparseable drafts are removed,
+   * drafts of older versions are migrated and written back.
+   * Resolves to `undefined` when there is nothing to restore.
+   */
+  load(): MaybePromise<VersionedData<T> | undefined>;
+
+  /**
+   * Read the stored draft as is, without expiring, migrating or removing it,
+   * e.g. to inspect it. Resolves to `undefined` when nothing is stored.
+   */
+  read(): MaybePromise<StoredDraft<T> | undefined>;
+
+  /** Filter the values and write them. Failures are reported to `onError`. */
+  save(values: Partial<T>, options?: SaveOptions<T>): MaybePromise<void>;
+
+  /** Remove the stored draft. */
+  clear(): MaybePromise<void>;
+
+  /** Listen to events. Returns a function that stops listening. */
+  subscribe(listener: (event: PersisterEvent<T>) => void): () => void;
+
+  /** Send an event to subscribers, `onEvent` and the `logger`, e.g. from a UI binding. */
+  emit(event: PersisterEvent<T>): void;
+
+  /** Log a warning with the `logger`, or `console.warn` without one. */
+  warn(message: string, ...details: unknown[]): void;
+
+  /** Report a failure as an "error" event and to `onError`, or log it without one. */
+  report(kind: PersistErrorKind, error: unknown, message: string): void;
+
+  /** Apply `include`, `exclude` and redaction to the values. */
+  filter(values: Partial<T>): Partial<T>;
+
+  /** Parse a raw draft, e.g. one written by another tab. */
+  parse(raw: string): MaybePromise<VersionedData<T> | undefined>;
+
+  /** Redact a field when `redact` is enabled, whatever its name. */
+  markSensitive(path: string): void;
+
+  /** Replace the options, e.g. with the latest ones on every render. */
+  setOptions(options: FormPersisterOptions<T>): void;
+}
+
+/**
+ * Create a persister that reads and writes the draft of one form.
+ * Used by `useFormPersist`, and usable on its own outside React.
+ *
+ * @example
+ * const persister = createFormPersister({ key: "checkout", version: "2" });
+ *
+ * const draft = await persister.load();
+ * await persister.save({ email: "john.doe@example.com" });
+ */
+export function createFormPersister<T extends FieldValues>(
+  options: FormPersisterOptions<T>
+): FormPersister<T> {
+  let current = options;
+  const listeners = new Set<(event: PersisterEvent<T>) => void>();
+  const sensitive = new Set<string>();
+  const redacted = new Set<string>();
+
+  const resolve = () => {
+    const {
+      storage = typeof window !== "undefined" ? window.localStorage : undefined,
+      parser = DEFAULT_PARSER,
+      version = INITIAL_VERSION
+    } = current;
+    return { ...current, storage, parser, version };
+  };
+
+  const emit = (event: PersisterEvent<T>) => {
+    for (const listener of listeners) listener(event);
+    current.onEvent?.(event);
+    current.logger?.debug(`[${current.key}] ${event.type}`, event);
+  };
+
+  const warn = (message: string, ...details: unknown[]) =>
+    (current.logger ?? console).warn(message, ...details);
+
+  const report = (kind: PersistErrorKind, error: unknown, message: string) => {
+    emit({ type: "error", key: current.key, kind, error });
+    if (current.onError) current.onError(kind, error);
+    else warn(message, error);
+  };
+
+  const filter = (values: Partial<T>): Partial<T> => {
+    const { include, exclude, redact = false } = current;
+
+    let filtered = values;
+    if (include?.length) filtered = pickIn(filtered, include);
+    if (exclude?.length) filtered = omitIn(filtered, exclude);
+    if (redact === false) return filtered;
+
+    const allow = typeof redact === "object" ? redact.allow : undefined;
+    const paths = findSensitivePaths(filtered, sensitive, allow);
+    const fresh = paths.filter((path) => !redacted.has(path));
+    if (fresh.length) {
+      fresh.forEach((path) => redacted.add(path));
+      if (IS_DEV) warn(`Auto-redacted fields: ${fresh.join(", ")}`);
+    }
+    return paths.length ? omitIn(filtered, paths) : filtered;
+  };
+
+  // Drafts with a budget are recorded so they can be evicted later.
+  // The key is the one read before serializing, in case the options changed meanwhile
+  const write = (key: string, raw: string, savedAt: number) => {
+    const { storage, maxBytes, evict } = resolve();
+    if (!storage) return;
+
+    return maxBytes !== undefined || evict !== undefined
+      ? writeWithinBudget(storage, key, raw, {
+          maxBytes,
+          evict: evict === "lru",
+          savedAt
+        })
+      : storage.setItem(key, raw);
+  };
+
+  const save = (
+    values: Partial<T>,
+    { savedAt = Date.now(), history, meta }: SaveOptions<T> = {}
+  ): MaybePromise<void> => {
+    const { key, parser, version, ttl } = resolve();
+
+    const data: VersionedData<T> = { version, data: filter(values), savedAt };
+    if (ttl !== undefined) data.expiresAt = savedAt + ttl;
+    if (history) data.history = history;
+    if (meta) data.meta = meta;
+
+    return chain(
+      attempt<string | null>(
+        () => parser.serialize(data),
+        (err) => {
+          report("serialize", err, "Failed to serialize");
+          return null;
+        }
+      ),
+      (raw) =>
+        raw === null
+          ? undefined
+          : attempt(
+              () =>
+                chain(write(key, raw, data.savedAt!), () =>
+                  emit({ type: "save", key, data, raw })
+                ),
+              (err) =>
+                isQuotaError(err)
+                  ? report("quota", err, "Storage quota exceeded")
+                  : report("write", err, "Failed to write")
+            )
+    );
+  };
+
+  const clear = (): MaybePromise<void> => {
+    const { key, storage, maxBytes, evict } = resolve();
+    const budgeted = maxBytes !== undefined || evict !== undefined;
+
+    return attempt(
+      () =>
+        chain(storage?.removeItem(key), () =>
+          chain(
+            budgeted && storage ? forgetDraft(storage, key) : undefined,
+            () => emit({ type: "clear", key })
+          )
+        ),
+      (err) => report("write", err, "Failed to remove")
+    );
+  };
+
+  const parse = (raw: string) =>
+    attempt<VersionedData<T> | undefined>(
+      () => resolve().parser.deserialize(raw),
+      (err) => {
+        report(
+          err instanceof DecryptionError ? "decrypt" : "parse",
+          err,
+          "Failed to parse stored data"
+        );
+        return undefined;
+      }
+    );
+
+  const upgrade = (
+    parsed: VersionedData<T>
+  ): MaybePromise<VersionedData<T> | undefined> => {
+    const { key, version, maxAge, migrations, onMigrate, onVersionMismatch } =
+      resolve();
+
+    if (typeof parsed !== "object" || !("version" in parsed))
+      return chain(clear(), () => undefined);
+
+    const now = Date.now();
+    const { savedAt, expiresAt } = parsed;
+    if (
+      (expiresAt !== undefined && expiresAt <= now) ||
+      (maxAge !== undefined && savedAt !== undefined && savedAt + maxAge <= now)
+    )
+      return chain(clear(), () => undefined);
+
+    if (parsed.version === version) return parsed;
+
+    const path = migrations
+      ? findMigrationPath(migrations, parsed.version, version)
+      : undefined;
+
+    if (!path) {
+      emit({
+        type: "version-mismatch",
+        key,
+        stored: parsed.version,
+        current: version
+      });
+      warn(`Version mismatch: stored=${parsed.version}, current=${version}`);
+      onVersionMismatch?.(parsed.version, version);
+      return undefined;
+    }
+
+    const migrated = runMigrations(
+      migrations!,
+      path,
+      parsed.data,
+      parsed.version,
+      version
+    );
+    onMigrate?.(migrated.report);
+
+    if (!migrated.data) {
+      warn(
+        `Migration ${migrated.report.failedStep} failed`,
+        migrated.report.error
+      );
+      return undefined;
+    }
+
+    // History and meta are dropped: their snapshots and paths have the old shape
+    const upgraded = { ...parsed, version, data: migrated.data };
+    delete upgraded.history;
+    delete upgraded.meta;
+    return chain(save(upgraded.data, { savedAt }), () => upgraded);
+  };
+
+  const load = (): MaybePromise<VersionedData<T> | undefined> => {
+    const { key, storage, parser } = resolve();
+    if (!storage) return undefined;
+
+    const restore = (raw: string | null) => {
+      if (!raw) return undefined;
+
+      return attempt<VersionedData<T> | undefined>(
+        () => chain(parser.deserialize(raw), upgrade),
+        (err) => {
+          // Undecryptable data may become readable again with the right key
+          if (err instanceof DecryptionError) {
+            report("decrypt", err, "Failed to decrypt stored data");
+            return undefined;
+          }
+          report("parse", err, "Failed to parse stored data");
+          return chain(clear(), () => undefined);
+        }
+      );
+    };
+
+    return attempt(
+      () => chain(storage.getItem(key), restore),
+      (err) => {
+        report("read", err, "Failed to read stored data");
+        return undefined;
+      }
+    );
+  };
+
+  const read = (): MaybePromise<StoredDraft<T> | undefined> => {
+    const { storage, parser } = resolve();
+    if (!storage) return undefined;
+
+    const inspect = (raw: string | null) =>
+      raw === null
+        ? undefined
+        : attempt<StoredDraft<T>>(
+            () =>
+              chain(parser.deserialize(raw), (envelope) => ({ raw, envelope })),
+            () => ({ raw })
+          );
+
+    return attempt(
+      () => chain(storage.getItem(resolve().key), inspect),
+      (err) => {
+        report("read", err, "Failed to read stored data");
+        return undefined;
+      }
+    );
+  };
+
+  return {
+    load,
+    read,
+    save,
+    clear,
+    filter,
+    parse,
+    emit,
+    warn,
+    report,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    markSensitive: (path) => {
+      sensitive.add(path);
+    },
+
+    setOptions: (next) => {
+      current = next;
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { act, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useForm } from 'react-hook-form';
+import { FormPersistDevtools, useFormPersist } from './index';
+import { MemoryStorage } from './testing';
+
+function ContactForm({ storage }: { storage: MemoryStorage }) {
+  const form = useForm({ defaultValues: { name: '' } });
+  const persisted = useFormPersist(form, { key: 'contact', storage });
+
+  return <input aria-label="name" {...persisted.register('name')} />;
+}
+
+describe('FormPersistDevtools', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test('lists the drafts of mounted forms and of localStorage', async () => {
+    localStorage.setItem(
+      'old-form',
+      JSON.stringify({ version: '2', data: { email: 'a@b.c' } }),
+    );
+    localStorage.setItem('theme', 'dark');
+    const storage = new MemoryStorage();
+
+    render(
+      <>
+        <ContactForm storage={storage} />
+        <FormPersistDevtools />
+      </>,
+    );
+    await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+    const panel = screen.getByRole('complementary', {
+      name: 'Form persist devtools',
+    });
+    await waitFor(() =>
+      expect(within(panel).getAllByRole('row')).toHaveLength(3),
+    );
+    const [, contact, old] = within(panel).getAllByRole('row');
+    expect(contact.textContent).toContain('contact');
+    expect(contact.textContent).toContain(
+      `${storage.getItem('contact')!.length * 2} B`,
+    );
+    expect(old.textContent).toContain('old-form');
+    expect(old.textContent).toContain('2');
+  });
+
+  test('edits and clears drafts', async () => {
+    const storage = new MemoryStorage();
+    render(
+      <>
+        <ContactForm storage={storage} />
+        <FormPersistDevtools storage={null} />
+      </>,
+    );
+    await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+    await userEvent.click(await screen.findByLabelText('Inspect contact'));
+    const editor = screen.getByLabelText('Data of contact');
+    expect(JSON.parse((editor as HTMLTextAreaElement).value)).toEqual({
+      name: 'Al',
+    });
+
+    await userEvent.clear(editor);
+    await userEvent.type(editor, '{{"name":"Bob"}');
+    await userEvent.click(screen.getByLabelText('Save'));
+    expect(JSON.parse(storage.getItem('contact')!).data).toEqual({
+      name: 'Bob',
+    });
+
+    await act(async () => {
+      screen.getByLabelText('Clear contact').click();
+    });
+    expect(storage.getItem('contact')).toBeNull();
+    await waitFor(() =>
+      expect(screen.queryByLabelText('Clear contact')).toBeNull(),
+    );
+  });
+});
@@ -0,0 +1,253 @@
+import { FieldValues } from "react-hook-form";
+import {
+  createElement,
+  CSSProperties,
+  useCallback,
+  useEffect,
+  useState
+} from "react";
+import { createFormPersister, FormPersister, StoredDraft } from "./core";
+import { getPersisters, subscribePersisters } from "./internal/registry";
+import { byteLength, INDEX_KEY } from "./storage/quota";
+
+/**
+ * Props of `FormPersistDevtools`.
+ */
+export interface FormPersistDevtoolsProps {
+  /**
+   * Also list the drafts found in this storage, when no mounted form uses them.
+   * They are read with the default parser. Defaults to localStorage, `null` to skip.
+   */
+  storage?: Storage | null;
+}
+
+interface Entry extends Partial<StoredDraft<FieldValues>> {
+  key: string;
+  persister: FormPersister<FieldValues>;
+}
+
+const PANEL_STYLE: CSSProperties = {
+  position: "fixed",
+  right: 8,
+  bottom: 8,
+  zIndex: 2147483647,
+  maxWidth: "min(640px, calc(100vw - 16px))",
+  maxHeight: "50vh",
+  overflow: "auto",
+  padding: 8,
+  font: "12px/1.4 ui-monospace, monospace",
+  color: "#111",
+  background: "#fff",
+  border: "1px solid #ccc",
+  boxShadow: "0 2px 8px rgba(0, 0, 0, 0.15)"
+};
+
+const CELL_STYLE: CSSProperties = { padding: "2px 6px", textAlign: "left" };
+
+const formatTime = (savedAt?: number) =>
+  savedAt === undefined ? "" : new Date(savedAt).toLocaleString();
+
+// Drafts of forms that are not mounted, found by enumerating the storage
+const findStoredPersisters = (storage: Storage) => {
+  const found = new Map<string, FormPersister<FieldValues>>();
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key !== null && key !== INDEX_KEY)
+      found.set(key, createFormPersister({ key, storage }));
+  }
+  return found;
+};
+
+const isEnvelope = (entry: Entry) =>
+  typeof entry.envelope === "object" &&
+  entry.envelope !== null &&
+  "version" in entry.envelope &&
+  "data" in entry.envelope;
+
+/**
+ * A panel listing the persisted drafts, with their versions, sizes and save times,
+ * to inspect, edit or clear them while debugging. Lists the drafts of every mounted
+ * `useFormPersist`, whatever their storage and parser, and the drafts found in `storage`.
+ *
+ * @example
+ * {process.env.NODE_ENV !== "production" && <FormPersistDevtools />}
+ */
+export function FormPersistDevtools({
+  storage = typeof window !== "undefined" ? window.localStorage : null
+}: FormPersistDevtoolsProps = {}) {
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [revision, setRevision] = useState(0);
+  const [registryRevision, setRegistryRevision] = useState(0);
+  const [selected, setSelected] = useState<string>();
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string>();
+
+  const refresh = useCallback(() => setRevision((value) => value + 1), []);
+
+  useEffect(
+    () =>
+      subscribePersisters(() => {
+        setRegistryRevision((value) => value + 1);
+        refresh();
+      }),
+    [refresh]
+  );
+
+  useEffect(() => {
+    const unsubscribes = Array.from(getPersisters().values(), (persister) =>
+      persister.subscribe((event) => {
+        if (event.type === "save" || event.type === "clear") refresh();
+      })
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [registryRevision, refresh]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const registered = getPersisters();
+    const persisters = new Map(storage ? findStoredPersisters(storage) : []);
+    registered.forEach((persister, key) => persisters.set(key, persister));
+
+    Promise.all(
+      Array.from(persisters, async ([key, persister]): Promise<Entry> => ({
+        key,
+        persister,
+        ...(await persister.read())
+      }))
+    ).then((all) => {
+      if (cancelled) return;
+      setEntries(
+        all
+          .filter(
+            (entry) =>
+              entry.raw !== undefined &&
+              (registered.has(entry.key) || isEnvelope(entry))
+          )
+          .sort((a, b) => a.key.localeCompare(b.key))
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, revision]);
+
+  const inspect = (entry: Entry) => {
+    setSelected(entry.key);
+    setText(JSON.stringify(entry.envelope?.data ?? {}, null, 2));
+    setError(undefined);
+  };
+
+  const save = async (entry: Entry) => {
+    let data: FieldValues;
+    try {
+      data = JSON.parse(text);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    await entry.persister.save(data);
+    setSelected(undefined);
+    refresh();
+  };
+
+  const clear = async (entry: Entry) => {
+    await entry.persister.clear();
+    if (selected === entry.key) setSelected(undefined);
+    refresh();
+  };
+
+  const selectedEntry = entries.find((entry) => entry.key === selected);
+
+  const button = (label: string, onClick: () => void, name = label) =>
+    createElement(
+      "button",
+      { type: "button", onClick, "aria-label": name },
+      label
+    );
+
+  const header = createElement(
+    "div",
+    {
+      style: { display: "flex", justifyContent: "space-between", gap: 8 }
+    },
+    createElement("strong", null, `Persisted drafts (${entries.length})`),
+    button("Refresh", refresh)
+  );
+
+  const rows = entries.map((entry) =>
+    createElement(
+      "tr",
+      { key: entry.key },
+      createElement("td", { style: CELL_STYLE }, entry.key),
+      createElement(
+        "td",
+        { style: CELL_STYLE },
+        entry.envelope?.version ?? "?"
+      ),
+      createElement(
+        "td",
+        { style: CELL_STYLE },
+        `${byteLength(entry.raw ?? "")} B`
+      ),
+      createElement(
+        "td",
+        { style: CELL_STYLE },
+        formatTime(entry.envelope?.savedAt)
+      ),
+      createElement(
+        "td",
+        { style: CELL_STYLE },
+        button("Inspect", () => inspect(entry), `Inspect ${entry.key}`),
+        " ",
+        button("Clear", () => clear(entry), `Clear ${entry.key}`)
+      )
+    )
+  );
+
+  const table = createElement(
+    "table",
+    { style: { borderCollapse: "collapse", marginTop: 4 } },
+    createElement(
+      "thead",
+      null,
+      createElement(
+        "tr",
+        null,
+        ...["Key", "Version", "Size", "Saved", ""].map((title) =>
+          createElement("th", { key: title, style: CELL_STYLE }, title)
+        )
+      )
+    ),
+    createElement("tbody", null, ...rows)
+  );
+
+  const editor =
+    selectedEntry &&
+    createElement(
+      "div",
+      { style: { marginTop: 8 } },
+      createElement("div", null, selectedEntry.key),
+      createElement("textarea", {
+        "aria-label": `Data of ${selectedEntry.key}`,
+        value: text,
+        rows: 10,
+        style: { width: "100%", font: "inherit" },
+        onChange: (event: { target: { value: string } }) =>
+          setText(event.target.value)
+      }),
+      error && createElement("div", { role: "alert" }, error),
+      button("Save", () => save(selectedEntry)),
+      " ",
+      button("Close", () => setSelected(undefined))
+    );
+
+  return createElement(
+    "aside",
+    { "aria-label": "Form persist devtools", style: PANEL_STYLE },
+    header,
+    table,
+    editor
+  );
+}
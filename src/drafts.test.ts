@@ -0,0 +1,68 @@
+import { listDrafts } from "./drafts";
+import { PersistStorage } from "./storage/types";
+
+const envelope = (data: object, savedAt: number) =>
+  JSON.stringify({ version: "1", data, savedAt });
+
+describe("listDrafts", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test("lists the drafts starting with the prefix, newest first", async () => {
+    localStorage.setItem("order-1", envelope({ note: "first" }, 1));
+    localStorage.setItem("order-2", envelope({ note: "second" }, 2));
+    localStorage.setItem("order-2:submitted", envelope({ note: "sent" }, 3));
+    localStorage.setItem("order-2:checkpoint:v1", envelope({ note: "v1" }, 3));
+    localStorage.setItem("customer-1", envelope({ name: "Alice" }, 4));
+
+    expect(await listDrafts("order-")).toEqual([
+      { key: "order-2", version: "1", data: { note: "second" }, savedAt: 2 },
+      { key: "order-1", version: "1", data: { note: "first" }, savedAt: 1 }
+    ]);
+  });
+
+  test("skips expired drafts and leaves other entries untouched", async () => {
+    localStorage.setItem(
+      "order-1",
+      JSON.stringify({ version: "1", data: {}, expiresAt: 1 })
+    );
+    localStorage.setItem("order-settings", '{"columns":3}');
+    localStorage.setItem("order-theme", "dark");
+
+    expect(await listDrafts("order-")).toEqual([]);
+    expect(localStorage.getItem("order-1")).toBeNull();
+    expect(localStorage.getItem("order-settings")).toBe('{"columns":3}');
+    expect(localStorage.getItem("order-theme")).toBe("dark");
+  });
+
+  test("migrates drafts of older versions", async () => {
+    localStorage.setItem("order-1", envelope({ comment: "fragile" }, 1));
+
+    const drafts = await listDrafts("order-", {
+      version: "2",
+      migrations: { "1->2": ({ comment }) => ({ note: comment }) }
+    });
+
+    expect(drafts).toEqual([
+      { key: "order-1", version: "2", data: { note: "fragile" }, savedAt: 1 }
+    ]);
+  });
+
+  test("uses the keys of custom storages", async () => {
+    const items = new Map([["order-1", envelope({ note: "first" }, 1)]]);
+    const storage: PersistStorage = {
+      getItem: async (key) => items.get(key) ?? null,
+      setItem: async (key, value) => void items.set(key, value),
+      removeItem: async (key) => void items.delete(key),
+      keys: async () => Array.from(items.keys())
+    };
+
+    expect(await listDrafts("order-", { storage })).toEqual([
+      { key: "order-1", version: "1", data: { note: "first" }, savedAt: 1 }
+    ]);
+    await expect(
+      listDrafts("order-", { storage: { ...storage, keys: undefined } })
+    ).rejects.toThrow("cannot list its keys");
+  });
+});
@@ -0,0 +1,90 @@
+import { FieldValues } from "react-hook-form";
+import { createFormPersister, FormPersisterOptions } from "./core";
+import { MaybePromise } from "./internal/maybe-promise";
+import { INDEX_KEY } from "./storage/quota";
+import { PersistStorage } from "./storage/types";
+import { VersionedData } from "./parsers/types";
+
+/**
+ * Options for `listDrafts`.
+ * Should match the options of the forms, so drafts are read the same way.
+ *
+ * @template T - The shape of your form values.
+ */
+export type ListDraftsOptions<T extends FieldValues> = Omit<
+  FormPersisterOptions<T>,
+  "key"
+>;
+
+/**
+ * A draft found by `listDrafts`, with its key.
+ */
+export interface DraftEntry<T extends FieldValues> extends VersionedData<T> {
+  key: string;
+}
+
+const isWebStorage = (storage: PersistStorage): storage is Storage =>
+  "length" in storage && typeof (storage as Storage).key === "function";
+
+const listKeys = (storage: PersistStorage): MaybePromise<string[]> => {
+  if (storage.keys) return storage.keys();
+  if (!isWebStorage(storage))
+    throw new Error("The storage cannot list its keys, implement keys()");
+
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key !== null) keys.push(key);
+  }
+  return keys;
+};
+
+// Skips entries sharing the prefix that are not drafts:
+// the values kept by `keepSubmitted` and the checkpoints
+const isDraftKey = (key: string, prefix: string) =>
+  key.startsWith(prefix) &&
+  key !== INDEX_KEY &&
+  !/:(submitted|checkpoints)$|:checkpoint:/.test(key);
+
+/**
+ * List the drafts whose key starts with `prefix`, most recently saved first,
+ * e.g. to flag the records with unsaved changes in a list view.
+ * Drafts are loaded the way the forms load them: migrated, and skipped when expired
+ * or of another version. Entries that are not drafts are left untouched.
+ * The storage must be Web Storage or implement `keys()`.
+ *
+ * @example
+ * const drafts = await listDrafts<Order>("order-");
+ * const hasDraft = (id: string) => drafts.some(({ key }) => key === `order-${id}`);
+ */
+export async function listDrafts<T extends FieldValues>(
+  prefix: string,
+  options: ListDraftsOptions<T> = {}
+): Promise<DraftEntry<T>[]> {
+  const {
+    storage = typeof window !== "undefined" ? window.localStorage : undefined
+  } = options;
+  if (!storage) return [];
+
+  const keys = (await listKeys(storage)).filter((key) =>
+    isDraftKey(key, prefix)
+  );
+
+  const drafts = await Promise.all(
+    keys.map(async (key): Promise<DraftEntry<T> | undefined> => {
+      const persister = createFormPersister<T>({ ...options, key, storage });
+
+      // Loading clears entries that are not drafts, so they are checked first
+      const envelope = (await persister.read())?.envelope;
+      if (typeof envelope !== "object" || envelope === null) return undefined;
+      if (!("version" in envelope) || !("data" in envelope)) return undefined;
+
+      const draft = await persister.load();
+      return draft && { ...draft, key };
+    })
+  );
+
+  return drafts
+    .filter((draft): draft is DraftEntry<T> => draft !== undefined)
+    .sort((a, b) => (b.savedAt ?? 0) - (a.savedAt ?? 0));
+}
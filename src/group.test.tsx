@@ -0,0 +1,173 @@
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useForm } from 'react-hook-form';
+import {
+  createPersistGroup,
+  FormPersistProvider,
+  useFormPersist,
+  useFormPersistGroup,
+} from './index';
+import { MemoryStorage } from './testing';
+
+describe('createPersistGroup', () => {
+  test('namespaces step keys under the group key', () => {
+    const group = createPersistGroup({
+      key: 'onboarding',
+      storage: new MemoryStorage(),
+    });
+
+    expect(group.stepKey('personal')).toBe('onboarding:personal');
+  });
+
+  test('persists the current step', async () => {
+    const storage = new MemoryStorage();
+    await createPersistGroup({ key: 'onboarding', storage }).setStep(2);
+
+    const group = createPersistGroup({ key: 'onboarding', storage });
+    expect(await group.getStep()).toBe(2);
+  });
+
+  test('reads and clears every registered step', async () => {
+    const storage = new MemoryStorage();
+    const group = createPersistGroup({ key: 'onboarding', storage });
+    await Promise.all([group.register('personal'), group.register('address')]);
+    storage.setItem(
+      'onboarding:personal',
+      JSON.stringify({ version: '1', data: { name: 'Bob' } }),
+    );
+    storage.setItem(
+      'onboarding:address',
+      JSON.stringify({ version: '1', data: { city: 'Kyiv' } }),
+    );
+    storage.setItem('unrelated', 'value');
+
+    const reloaded = createPersistGroup({ key: 'onboarding', storage });
+    expect(await reloaded.getAll()).toEqual({
+      personal: { name: 'Bob' },
+      address: { city: 'Kyiv' },
+    });
+
+    await reloaded.clearAll();
+    expect(storage.keys()).toEqual(['unrelated']);
+  });
+
+  test('reports step data that cannot be parsed', async () => {
+    const storage = new MemoryStorage();
+    const onError = vi.fn();
+    const group = createPersistGroup({ key: 'onboarding', storage, onError });
+    await group.register('personal');
+    storage.setItem('onboarding:personal', '{');
+
+    expect(await group.getAll()).toEqual({});
+    expect(onError).toHaveBeenCalledWith('parse', expect.any(SyntaxError));
+  });
+});
+
+describe('FormPersistProvider', () => {
+  function Step({ name, finalStep }: { name: string; finalStep?: boolean }) {
+    const form = useForm({ defaultValues: { [name]: '' } });
+    const { register, handleSubmit } = useFormPersist(form, {
+      key: name,
+      finalStep,
+    });
+
+    return (
+      <form onSubmit={handleSubmit(async () => {})}>
+        <input aria-label={name} {...register(name)} />
+        <button type="submit">submit-{name}</button>
+      </form>
+    );
+  }
+
+  function Wizard() {
+    const { step, next } = useFormPersistGroup();
+
+    return (
+      <>
+        <span aria-label="step">{step}</span>
+        <button type="button" onClick={next}>
+          next
+        </button>
+        {step === 0 ? (
+          <Step key="first" name="first" />
+        ) : (
+          <Step key="second" name="second" finalStep />
+        )}
+      </>
+    );
+  }
+
+  test('namespaces steps and clears the group after the final step', async () => {
+    const storage = new MemoryStorage();
+    const group = createPersistGroup({ key: 'wizard', storage });
+    render(
+      <FormPersistProvider group={group}>
+        <Wizard />
+      </FormPersistProvider>,
+    );
+
+    await userEvent.type(screen.getByLabelText('first'), 'a');
+    expect(storage.getItem('wizard:first')).toContain('"first":"a"');
+
+    await act(async () => {
+      screen.getByRole('button', { name: 'next' }).click();
+    });
+    await waitFor(() =>
+      expect(screen.getByLabelText('step').textContent).toBe('1'),
+    );
+    expect(JSON.parse(storage.getItem('wizard')!).step).toBe(1);
+
+    await userEvent.type(screen.getByLabelText('second'), 'b');
+    expect(await group.getAll()).toEqual({
+      first: { first: 'a' },
+      second: { second: 'b' },
+    });
+
+    await act(async () => {
+      screen.getByRole('button', { name: 'submit-second' }).click();
+    });
+
+    await waitFor(() => expect(storage.length).toBe(0));
+    expect(screen.getByLabelText('step').textContent).toBe('0');
+  });
+
+  test('keeps the group when the final submit rejects', async () => {
+    const storage = new MemoryStorage();
+    const group = createPersistGroup({ key: 'wizard', storage });
+    storage.setItem('wizard:other', JSON.stringify({ version: '1', data: {} }));
+    await group.register('other');
+
+    function FailingStep() {
+      const form = useForm({ defaultValues: { name: '' } });
+      const { handleSubmit } = useFormPersist(form, {
+        key: 'final',
+        finalStep: true,
+      });
+
+      return (
+        <button
+          type="button"
+          onClick={() =>
+            handleSubmit(() => Promise.reject(new Error('offline')))().catch(
+              () => {},
+            )
+          }
+        >
+          submit
+        </button>
+      );
+    }
+
+    render(
+      <FormPersistProvider group={group}>
+        <FailingStep />
+      </FormPersistProvider>,
+    );
+
+    await act(async () => {
+      screen.getByRole('button', { name: 'submit' }).click();
+    });
+
+    expect(storage.getItem('wizard:other')).not.toBeNull();
+  });
+});
@@ -0,0 +1,267 @@
+import { FieldValues } from "react-hook-form";
+import {
+  createContext,
+  createElement,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState
+} from "react";
+import { PersistErrorKind, PersistLogger } from "./core";
+import { DEFAULT_PARSER } from "./parsers/default";
+import { PersistParser } from "./parsers/types";
+import { PersistStorage } from "./storage/types";
+
+/**
+ * Options for `createPersistGroup`.
+ */
+export interface PersistGroupOptions {
+  /** The key that namespaces every step of the group. */
+  key: string;
+
+  /**
+   * The storage to use. Defaults to localStorage.
+   * Forms inside a `FormPersistProvider` use it unless they set their own.
+   */
+  storage?: PersistStorage;
+
+  /**
+   * The parser used to read step data in `getAll`. Defaults to JSON.
+   * Should match the parser of the forms in the group.
+   */
+  parser?: PersistParser<FieldValues>;
+
+  /**
+   * Called when step data cannot be parsed in `getAll`.
+   * Failures are logged with `console.warn` when not provided.
+   */
+  onError?: (kind: PersistErrorKind, error: unknown) => void;
+
+  /** Log warnings with `logger.warn` instead of `console.warn`. */
+  logger?: PersistLogger;
+}
+
+/**
+ * A group of persisted forms, e.g. the steps of a wizard.
+ */
+export interface PersistGroup {
+  readonly key: string;
+  readonly storage?: PersistStorage;
+
+  /** The storage key of a step. */
+  stepKey(step: string): string;
+
+  /** Remember a step so `getAll` and `clearAll` can find it after a reload. */
+  register(step: string): Promise<void>;
+
+  /** The persisted index of the current step, 0 when nothing is stored. */
+  getStep(): Promise<number>;
+  setStep(index: number): Promise<void>;
+
+  /** Listen to step changes. Returns a function that stops listening. */
+  subscribe(listener: (step: number) => void): () => void;
+
+  /** The persisted data of every registered step, by step name. */
+  getAll(): Promise<Record<string, Partial<FieldValues>>>;
+
+  /** Remove every step and the current step index. */
+  clearAll(): Promise<void>;
+}
+
+interface GroupMeta {
+  step: number;
+  steps: string[];
+}
+
+/**
+ * Create a group of persisted forms, namespaced under one key.
+ *
+ * @example
+ * const onboarding = createPersistGroup({ key: "onboarding" });
+ *
+ * <FormPersistProvider group={onboarding}>
+ *   <Wizard />
+ * </FormPersistProvider>
+ */
+export function createPersistGroup(options: PersistGroupOptions): PersistGroup {
+  const {
+    key,
+    storage = typeof window !== "undefined" ? window.localStorage : undefined,
+    parser = DEFAULT_PARSER,
+    onError,
+    logger = console
+  } = options;
+
+  const listeners = new Set<(step: number) => void>();
+  let meta: Promise<GroupMeta> | undefined;
+
+  const load = () => {
+    if (!meta) {
+      meta = Promise.resolve(storage?.getItem(key))
+        .then((raw) => (raw ? (JSON.parse(raw) as GroupMeta) : undefined))
+        .catch(() => undefined)
+        .then((stored) => ({
+          step: stored?.step ?? 0,
+          steps: stored?.steps ?? []
+        }));
+    }
+    return meta;
+  };
+
+  // Updates run one after another so concurrent changes are not lost
+  let updates: Promise<unknown> = Promise.resolve();
+  const update = (change: (current: GroupMeta) => GroupMeta) => {
+    const run = updates.then(async () => {
+      const next = change(await load());
+      meta = Promise.resolve(next);
+      await storage?.setItem(key, JSON.stringify(next));
+    });
+    updates = run.catch(() => undefined);
+    return run;
+  };
+
+  const stepKey = (step: string) => `${key}:${step}`;
+
+  const notify = (step: number) => {
+    for (const listener of listeners) listener(step);
+  };
+
+  return {
+    key,
+    storage,
+    stepKey,
+
+    register: async (step) => {
+      if ((await load()).steps.includes(step)) return;
+      await update((current) =>
+        current.steps.includes(step)
+          ? current
+          : { ...current, steps: [...current.steps, step] }
+      );
+    },
+
+    getStep: async () => (await load()).step,
+
+    setStep: async (index) => {
+      await update((current) => ({ ...current, step: index }));
+      notify(index);
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getAll: async () => {
+      const result: Record<string, Partial<FieldValues>> = {};
+
+      for (const step of (await load()).steps) {
+        const raw = await storage?.getItem(stepKey(step));
+        if (!raw) continue;
+
+        try {
+          result[step] = (await parser.deserialize(raw)).data;
+        } catch (err) {
+          if (onError) onError("parse", err);
+          else logger.warn(`Failed to parse stored data of step ${step}`, err);
+        }
+      }
+      return result;
+    },
+
+    clearAll: async () => {
+      await updates;
+      const { steps } = await load();
+      await Promise.all(
+        steps.map((step) => storage?.removeItem(stepKey(step)))
+      );
+      await storage?.removeItem(key);
+
+      // Keep the steps in memory: mounted forms may still write again
+      meta = Promise.resolve({ step: 0, steps });
+      notify(0);
+    }
+  };
+}
+
+const PersistGroupContext = createContext<PersistGroup | undefined>(undefined);
+
+/**
+ * Provide a persist group to every `useFormPersist` below.
+ * Their keys are namespaced under the group and the final step's
+ * successful submit clears the whole group.
+ */
+export function FormPersistProvider({
+  group,
+  children
+}: {
+  group: PersistGroup;
+  children?: ReactNode;
+}) {
+  return createElement(
+    PersistGroupContext.Provider,
+    { value: group },
+    children
+  );
+}
+
+/**
+ * The persist group of the closest `FormPersistProvider`, if any.
+ */
+export function usePersistGroupContext() {
+  return useContext(PersistGroupContext);
+}
+
+/**
+ * Access the persist group of the closest `FormPersistProvider`,
+ * with the current step index kept in sync with storage.
+ *
+ * @example
+ * const { step, next, prev } = useFormPersistGroup();
+ */
+export function useFormPersistGroup() {
+  const group = useContext(PersistGroupContext);
+  if (!group)
+    throw new Error(
+      "useFormPersistGroup must be used within a FormPersistProvider"
+    );
+
+  const [step, setStepState] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    group.getStep().then((stored) => {
+      if (!cancelled) setStepState(stored);
+    });
+
+    const unsubscribe = group.subscribe(setStepState);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [group]);
+
+  const setStep = useCallback((index: number) => group.setStep(index), [group]);
+  const next = useCallback(() => group.setStep(step + 1), [group, step]);
+  const prev = useCallback(
+    () => group.setStep(Math.max(0, step - 1)),
+    [group, step]
+  );
+
+  return useMemo(
+    () => ({
+      group,
+      step,
+      setStep,
+      next,
+      prev,
+      getAll: group.getAll,
+      clearAll: group.clearAll
+    }),
+    [group, step, setStep, next, prev]
+  );
+}
@@ -1,14 +1,32 @@
-import { render, screen, act, waitFor } from '@testing-library/react';
+import { webcrypto } from 'node:crypto';
+import { render, screen, act, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { useForm } from 'react-hook-form';
-import { useFormPersist } from './index';
-import type { useFormPersistOptions } from './index';
+import { StrictMode, useEffect, useMemo, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import type { Resolver } from 'react-hook-form';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  createEncryptedParser,
+  createIndexedDBStorage,
+  DecryptionError,
+  parseCookies,
+  STRUCTURED_PARSER,
+  useFormPersist,
+} from './index';
+import { advanceSaves, MemoryStorage } from './testing';
+import type {
+  PersistStorage,
+  RemoteAdapter,
+  StandardSchema,
+  useFormPersistOptions,
+  VersionedData,
+} from './index';
 
 function TestForm({
   storage,
   options,
 }: {
-  storage: Storage;
+  storage: PersistStorage;
   options?: Partial<
     useFormPersistOptions<{ name?: string; email?: string; password?: string }>
   >;
@@ -37,29 +55,40 @@ function TestForm({
       </button>
       <button type="submit">submit</button>
       <pre aria-label="values">{JSON.stringify(values)}</pre>
+      <span aria-label="status">
+        {persisted.isRestoring ? 'restoring' : 'restored'}
+      </span>
+      <span aria-label="last-saved-at">{String(persisted.lastSavedAt)}</span>
+      <span aria-label="has-draft">{String(persisted.hasDraft)}</span>
+      <span aria-label="sync-status">{persisted.syncStatus}</span>
+      <button type="button" onClick={persisted.restoreDraft}>
+        restore-draft
+      </button>
+      <button type="button" onClick={persisted.discardDraft}>
+        discard-draft
+      </button>
+      <button type="button" onClick={persisted.undo}>
+        undo
+      </button>
+      <button type="button" onClick={persisted.redo}>
+        redo
+      </button>
+      <span aria-label="can-undo">{String(persisted.canUndo)}</span>
+      <span aria-label="can-redo">{String(persisted.canRedo)}</span>
     </form>
   );
 }
 
-class MemoryStorage implements Storage {
-  private data = new Map<string, string>();
-  get length() {
-    return this.data.size;
+class AsyncMemoryStorage implements PersistStorage {
+  readonly sync = new MemoryStorage();
+  async getItem(key: string) {
+    return this.sync.getItem(key);
   }
-  clear(): void {
-    this.data.clear();
+  async setItem(key: string, value: string) {
+    this.sync.setItem(key, value);
   }
-  getItem(key: string): string | null {
-    return this.data.has(key) ? this.data.get(key)! : null;
-  }
-  key(index: number): string | null {
-    return Array.from(this.data.keys())[index] ?? null;
-  }
-  removeItem(key: string): void {
-    this.data.delete(key);
-  }
-  setItem(key: string, value: string): void {
-    this.data.set(key, value);
+  async removeItem(key: string) {
+    this.sync.removeItem(key);
   }
 }
 
@@ -180,6 +209,62 @@ describe('useFormPersist', () => {
     expect(parsed.data?.profile?.address?.city).toBeUndefined();
   });
 
+  test('combines include and exclude patterns', async () => {
+    const storage = new MemoryStorage();
+    render(
+      <NestedTestForm
+        storage={storage}
+        options={{ include: ['profile.**'], exclude: ['**.city'] }}
+      />,
+    );
+
+    const name = screen.getByLabelText('profile.name') as HTMLInputElement;
+    const city = screen.getByLabelText('profile.address.city') as HTMLInputElement;
+    await userEvent.type(name, 'Alice');
+    await userEvent.type(city, 'Kyiv');
+
+    const raw = await waitFor(() => storage.getItem('nested-form'));
+    const parsed = JSON.parse(raw!);
+    expect(parsed.data?.profile?.name).toBe('Alice');
+    expect(parsed.data?.profile?.address?.city).toBeUndefined();
+  });
+
+  test('exclude patterns cover array items added later', async () => {
+    const storage = new MemoryStorage();
+
+    function CardsForm() {
+      const form = useForm({
+        defaultValues: { cards: [{ number: '', cvv: '' }] },
+      });
+      const persisted = useFormPersist(form, {
+        key: 'cards-form',
+        storage,
+        exclude: ['cards.*.cvv'],
+      });
+      const { append } = useFieldArray({
+        control: persisted.control,
+        name: 'cards',
+      });
+
+      return (
+        <button
+          type="button"
+          onClick={() => append({ number: '4111', cvv: '123' })}
+        >
+          add-card
+        </button>
+      );
+    }
+
+    render(<CardsForm />);
+    await userEvent.click(screen.getByText('add-card'));
+
+    const raw = await waitFor(() => storage.getItem('cards-form'));
+    expect(JSON.parse(raw!).data).toEqual({
+      cards: [{ number: '' }, { number: '4111' }],
+    });
+  });
+
   test('skips unknown top-level fields on restore', async () => {
     const storage = new MemoryStorage();
     storage.setItem(
@@ -201,6 +286,32 @@ describe('useFormPersist', () => {
     expect(valuesText).not.toContain('unknown');
   });
 
+  test('reports restore and save events', async () => {
+    const storage = new MemoryStorage();
+    const draft = { version: '1', data: { name: 'Bob', nickname: 'Bobby' } };
+    storage.setItem('test-form', JSON.stringify(draft));
+    const onEvent = vi.fn();
+    const logger = { debug: vi.fn(), warn: vi.fn() };
+
+    render(<TestForm storage={storage} options={{ onEvent, logger }} />);
+    await userEvent.type(screen.getByLabelText('email'), 'a');
+
+    expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+      'restore:start',
+      'restore:skip-field',
+      'restore:end',
+      'save',
+    ]);
+    expect(onEvent.mock.calls[1][0]).toEqual({
+      type: 'restore:skip-field',
+      key: 'test-form',
+      path: 'nickname',
+      reason: 'Unknown field',
+    });
+    expect(onEvent.mock.calls[2][0].data).toEqual(draft.data);
+    expect(logger.warn).toHaveBeenCalledWith('Skipping unknown field: nickname');
+  });
+
   test('exclude prevents saving specified fields', async () => {
     const storage = new MemoryStorage();
     render(<TestForm storage={storage} options={{ exclude: ['password'] }} />);
@@ -262,6 +373,1770 @@ describe('useFormPersist', () => {
     expect(onVersionMismatch).toHaveBeenCalledWith('2', '1');
     expect(screen.getByLabelText('values').textContent).not.toContain('Bob');
   });
-});
 
+  test('migrates stored data through chained steps and re-saves it', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(
+      'test-form',
+      JSON.stringify({ version: '1', data: { name: 'bob' } }),
+    );
+
+    const onVersionMismatch = vi.fn();
+    const onMigrate = vi.fn();
+    render(
+      <TestForm
+        storage={storage}
+        options={{
+          version: '3',
+          onVersionMismatch,
+          onMigrate,
+          migrations: {
+            '1->2': (data) => ({ ...data, email: `${data.name}@example.com` }),
+            '2->3': (data) => ({ ...data, name: data.name?.toUpperCase() }),
+          },
+        }}
+      />,
+    );
+
+    const valuesText = screen.getByLabelText('values').textContent ?? '';
+    expect(valuesText).toContain('BOB');
+    expect(valuesText).toContain('bob@example.com');
+    expect(onVersionMismatch).not.toHaveBeenCalled();
+    expect(onMigrate).toHaveBeenCalledWith({
+      from: '1',
+      to: '3',
+      steps: ['1->2', '2->3'],
+    });
+
+    const parsed = JSON.parse(storage.getItem('test-form')!);
+    expect(parsed.version).toBe('3');
+    expect(parsed.data.name).toBe('BOB');
+  });
+
+  test('failed migration reports the step and keeps stored data', async () => {
+    const storage = new MemoryStorage();
+    const stored = JSON.stringify({ version: '1', data: { name: 'Bob' } });
+    storage.setItem('test-form', stored);
+
+    const onMigrate = vi.fn();
+    render(
+      <TestForm
+        storage={storage}
+        options={{
+          version: '2',
+          onMigrate,
+          migrations: {
+            '1->2': () => {
+              throw new Error('boom');
+            },
+          },
+        }}
+      />,
+    );
+
+    expect(onMigrate).toHaveBeenCalledWith(
+      expect.objectContaining({ steps: [], failedStep: '1->2' }),
+    );
+    expect(screen.getByLabelText('values').textContent).not.toContain('Bob');
+    expect(storage.getItem('test-form')).toBe(stored);
+  });
+
+  test('falls back to version mismatch when no migration path exists', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(
+      'test-form',
+      JSON.stringify({ version: '3', data: { name: 'Bob' } }),
+    );
+
+    const onVersionMismatch = vi.fn();
+    render(
+      <TestForm
+        storage={storage}
+        options={{
+          version: '2',
+          onVersionMismatch,
+          migrations: { '1->2': (data) => data },
+        }}
+      />,
+    );
+
+    expect(onVersionMismatch).toHaveBeenCalledWith('3', '2');
+    expect(screen.getByLabelText('values').textContent).not.toContain('Bob');
+  });
+
+  test('restores from an async storage and exposes restore state', async () => {
+    const storage = new AsyncMemoryStorage();
+    storage.sync.setItem(
+      'test-form',
+      JSON.stringify({ version: '1', data: { name: 'Bob' } }),
+    );
+
+    render(<TestForm storage={storage} />);
+
+    expect(screen.getByLabelText('status').textContent).toBe('restoring');
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('status').textContent).toBe('restored'),
+    );
+    expect(screen.getByLabelText('values').textContent).toContain('Bob');
+  });
+
+  test('finishes restoring when onRestore throws', async () => {
+    const storage = new AsyncMemoryStorage();
+    storage.sync.setItem(
+      'test-form',
+      JSON.stringify({ version: '1', data: { name: 'Bob' } }),
+    );
+    const logger = { debug: vi.fn(), warn: vi.fn() };
+    const onRestore = () => {
+      throw new Error('boom');
+    };
+
+    render(<TestForm storage={storage} options={{ onRestore, logger }} />);
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('status').textContent).toBe('restored'),
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to restore the draft',
+      new Error('boom'),
+    );
+
+    await userEvent.type(screen.getByLabelText('email'), 'me@example.com');
+    await waitFor(async () =>
+      expect(await storage.getItem('test-form')).toContain('me@example.com'),
+    );
+  });
+
+  test('reports restored state when nothing is stored', async () => {
+    render(<TestForm storage={new MemoryStorage()} />);
+
+    expect(screen.getByLabelText('status').textContent).toBe('restored');
+  });
+
+  test('persists and restores values with IndexedDB storage', async () => {
+    const storage = createIndexedDBStorage({ indexedDB: new IDBFactory() });
+    const { unmount } = render(<TestForm storage={storage} />);
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('status').textContent).toBe('restored'),
+    );
+    await userEvent.type(screen.getByLabelText('name'), 'Alice');
+
+    await waitFor(async () =>
+      expect(await storage.getItem('test-form')).toContain('Alice'),
+    );
+
+    unmount();
+    render(<TestForm storage={storage} />);
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('values').textContent).toContain('Alice'),
+    );
+  });
+
+  describe('debounced writes', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test('waits for inactivity before writing', () => {
+      const storage = new MemoryStorage();
+      render(<TestForm storage={storage} options={{ debounceMs: 300 }} />);
+
+      act(() => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+      expect(storage.getItem('test-form')).toBeNull();
+
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+      expect(storage.getItem('test-form')).toContain('Alice');
+    });
+
+    test('flushes pending writes on unmount', () => {
+      const storage = new MemoryStorage();
+      const { unmount } = render(
+        <TestForm storage={storage} options={{ debounceMs: 300 }} />,
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+      unmount();
+
+      expect(storage.getItem('test-form')).toContain('Alice');
+    });
+
+    test('flushes pending writes on page hide', () => {
+      const storage = new MemoryStorage();
+      render(<TestForm storage={storage} options={{ throttleMs: 1000 }} />);
+
+      act(() => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+      storage.removeItem('test-form');
+
+      act(() => {
+        window.dispatchEvent(new Event('pagehide'));
+      });
+      expect(storage.getItem('test-form')).toContain('Alice');
+    });
+
+    test('does not write a pending draft after submit clears it', async () => {
+      const storage = new MemoryStorage();
+      render(<TestForm storage={storage} options={{ debounceMs: 300 }} />);
+
+      act(() => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+      await act(async () => {
+        screen.getByRole('button', { name: 'submit' }).click();
+      });
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+
+      expect(storage.getItem('test-form')).toBeNull();
+    });
+  });
+
+  describe('tab synchronization', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    const receiveFromOtherTab = (data: object) => {
+      const newValue = JSON.stringify({ version: '1', data });
+      localStorage.setItem('test-form', newValue);
+      act(() => {
+        window.dispatchEvent(
+          new StorageEvent('storage', {
+            key: 'test-form',
+            newValue,
+            storageArea: localStorage,
+          }),
+        );
+      });
+    };
+
+    test('applies changes from other tabs via storage events', () => {
+      render(<TestForm storage={localStorage} options={{ syncTabs: true }} />);
+
+      receiveFromOtherTab({ name: 'Bob', email: 'bob@example.com' });
+
+      const valuesText = screen.getByLabelText('values').textContent ?? '';
+      expect(valuesText).toContain('Bob');
+      expect(valuesText).toContain('bob@example.com');
+    });
+
+    test('ignores other tabs when syncTabs is off', () => {
+      render(<TestForm storage={localStorage} />);
+
+      receiveFromOtherTab({ name: 'Bob' });
+
+      expect(screen.getByLabelText('values').textContent).not.toContain('Bob');
+    });
+
+    test('keep-local keeps local edits on conflict', async () => {
+      render(
+        <TestForm
+          storage={localStorage}
+          options={{ syncTabs: true, conflict: 'keep-local' }}
+        />,
+      );
+
+      await userEvent.type(screen.getByLabelText('email'), 'me@example.com');
+      receiveFromOtherTab({ name: 'Bob', email: 'bob@example.com' });
+
+      const valuesText = screen.getByLabelText('values').textContent ?? '';
+      expect(valuesText).toContain('me@example.com');
+      expect(valuesText).not.toContain('Bob');
+
+      const parsed = JSON.parse(localStorage.getItem('test-form')!);
+      expect(parsed.data).toMatchObject({ email: 'me@example.com' });
+      expect(parsed.data.name).not.toBe('Bob');
+
+      // The local edits are stored, so later changes apply
+      receiveFromOtherTab({ name: 'Carol', email: 'carol@example.com' });
+      expect(screen.getByLabelText('values').textContent).toContain('Carol');
+    });
+
+    test('onConflict resolves and persists the merged values', async () => {
+      const onConflict = vi.fn((local, remote) => ({
+        ...local,
+        name: remote.name,
+      }));
+      render(
+        <TestForm
+          storage={localStorage}
+          options={{ syncTabs: true, onConflict }}
+        />,
+      );
+
+      await userEvent.type(screen.getByLabelText('email'), 'me@example.com');
+      receiveFromOtherTab({ name: 'Bob', email: 'bob@example.com' });
+
+      expect(onConflict).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'me@example.com' }),
+        { name: 'Bob', email: 'bob@example.com' },
+      );
+      const valuesText = screen.getByLabelText('values').textContent ?? '';
+      expect(valuesText).toContain('Bob');
+      expect(valuesText).toContain('me@example.com');
+
+      const parsed = JSON.parse(localStorage.getItem('test-form')!);
+      expect(parsed.data).toMatchObject({ name: 'Bob', email: 'me@example.com' });
+    });
+
+    test('syncs other storages through a broadcast channel', async () => {
+      const storage = new MemoryStorage();
+      const first = render(
+        <TestForm storage={storage} options={{ syncTabs: true }} />,
+      );
+      const second = render(
+        <TestForm storage={storage} options={{ syncTabs: true }} />,
+      );
+
+      await userEvent.type(
+        within(first.container).getByLabelText('email'),
+        'a@b.c',
+      );
+
+      await waitFor(() =>
+        expect(
+          within(second.container).getByLabelText('values').textContent,
+        ).toContain('a@b.c'),
+      );
+    });
+  });
+
+  describe('encryption', () => {
+    // Node 18 has no global `crypto`
+    const crypto = webcrypto as unknown as Crypto;
+    const generateKey = () =>
+      crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ]);
+
+    test('persists encrypted drafts and restores them', async () => {
+      const storage = new MemoryStorage();
+      const parser = createEncryptedParser({
+        crypto,
+        key: await generateKey(),
+      });
+      const { unmount } = render(
+        <TestForm storage={storage} options={{ parser }} />,
+      );
+
+      await userEvent.type(screen.getByLabelText('name'), 'Alice');
+      await waitFor(async () =>
+        expect(
+          (await parser.deserialize(storage.getItem('test-form')!)).data.name,
+        ).toBe('Alice'),
+      );
+      expect(storage.getItem('test-form')).not.toContain('Alice');
+
+      unmount();
+      render(<TestForm storage={storage} options={{ parser }} />);
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('values').textContent).toContain('Alice'),
+      );
+    });
+
+    test('reports undecryptable drafts to onError and keeps them', async () => {
+      const storage = new MemoryStorage();
+      const stored = await createEncryptedParser({
+        crypto,
+        key: await generateKey(),
+      }).serialize({ version: '1', data: { name: 'Bob' } });
+      storage.setItem('test-form', stored);
+
+      const onError = vi.fn();
+      render(
+        <TestForm
+          storage={storage}
+          options={{
+            parser: createEncryptedParser({
+              crypto,
+              key: await generateKey(),
+            }),
+            onError,
+          }}
+        />,
+      );
+
+      await waitFor(() =>
+        expect(onError).toHaveBeenCalledWith(
+          'decrypt',
+          expect.any(DecryptionError),
+        ),
+      );
+      expect(screen.getByLabelText('status').textContent).toBe('restored');
+      expect(storage.getItem('test-form')).toBe(stored);
+    });
+  });
+
+  test('reports unparseable drafts to onError and removes them', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('test-form', '{not json');
+
+    const onError = vi.fn();
+    render(<TestForm storage={storage} options={{ onError }} />);
+
+    expect(onError).toHaveBeenCalledWith('parse', expect.any(SyntaxError));
+    expect(storage.getItem('test-form')).toBeNull();
+  });
+
+  describe('storage quota', () => {
+    test('reports a full storage to onError as quota', async () => {
+      const storage = new MemoryStorage();
+      vi.spyOn(storage, 'setItem').mockImplementation(() => {
+        throw new DOMException(
+          'The quota has been exceeded.',
+          'QuotaExceededError',
+        );
+      });
+
+      const onError = vi.fn();
+      render(<TestForm storage={storage} options={{ onError }} />);
+      await act(async () => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+
+      expect(onError).toHaveBeenCalledWith('quota', expect.any(DOMException));
+      expect(screen.getByLabelText('last-saved-at').textContent).toBe('null');
+    });
+
+    test('evicts the least recently saved drafts to fit maxBytes', async () => {
+      const storage = new MemoryStorage();
+      storage.setItem('old-form', 'x'.repeat(100));
+      storage.setItem(
+        'use-react-hook-form-persist:index',
+        JSON.stringify({ 'old-form': { savedAt: 1, bytes: 200 } }),
+      );
+
+      const onError = vi.fn();
+      render(
+        <TestForm
+          storage={storage}
+          options={{ maxBytes: 300, evict: 'lru', onError }}
+        />,
+      );
+      await act(async () => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+
+      expect(storage.getItem('old-form')).toBeNull();
+      expect(JSON.parse(storage.getItem('test-form')!).data.name).toBe('Alice');
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    test('skips drafts larger than maxBytes', async () => {
+      const storage = new MemoryStorage();
+      const onError = vi.fn();
+      render(
+        <TestForm storage={storage} options={{ maxBytes: 10, onError }} />,
+      );
+
+      await act(async () => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+
+      expect(storage.getItem('test-form')).toBeNull();
+      expect(onError).toHaveBeenCalledWith(
+        'quota',
+        expect.objectContaining({ name: 'QuotaExceededError' }),
+      );
+    });
+  });
+
+  describe('expiry', () => {
+    const HOUR = 60 * 60 * 1000;
+
+    test('stamps savedAt and expiresAt and exposes lastSavedAt', async () => {
+      const storage = new MemoryStorage();
+      render(<TestForm storage={storage} options={{ ttl: HOUR }} />);
+
+      expect(screen.getByLabelText('last-saved-at').textContent).toBe('null');
+
+      await act(async () => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+
+      const parsed = JSON.parse(storage.getItem('test-form')!);
+      expect(parsed.expiresAt - parsed.savedAt).toBe(HOUR);
+      expect(screen.getByLabelText('last-saved-at').textContent).toBe(
+        String(parsed.savedAt),
+      );
+    });
+
+    test('restores fresh drafts and exposes when they were saved', () => {
+      const storage = new MemoryStorage();
+      const savedAt = Date.now() - HOUR;
+      storage.setItem(
+        'test-form',
+        JSON.stringify({
+          version: '1',
+          data: { name: 'Bob' },
+          savedAt,
+          expiresAt: savedAt + 2 * HOUR,
+        }),
+      );
+
+      render(<TestForm storage={storage} options={{ maxAge: 2 * HOUR }} />);
+
+      expect(screen.getByLabelText('values').textContent).toContain('Bob');
+      expect(screen.getByLabelText('last-saved-at').textContent).toBe(
+        String(savedAt),
+      );
+    });
+
+    test('purges drafts past their expiresAt', () => {
+      const storage = new MemoryStorage();
+      storage.setItem(
+        'test-form',
+        JSON.stringify({
+          version: '1',
+          data: { name: 'Bob' },
+          savedAt: Date.now() - 2 * HOUR,
+          expiresAt: Date.now() - HOUR,
+        }),
+      );
+
+      render(<TestForm storage={storage} />);
+
+      expect(screen.getByLabelText('values').textContent).not.toContain('Bob');
+      expect(storage.getItem('test-form')).toBeNull();
+    });
+
+    test('purges drafts older than maxAge', () => {
+      const storage = new MemoryStorage();
+      storage.setItem(
+        'test-form',
+        JSON.stringify({
+          version: '1',
+          data: { name: 'Bob' },
+          savedAt: Date.now() - 2 * HOUR,
+        }),
+      );
+
+      render(<TestForm storage={storage} options={{ maxAge: HOUR }} />);
+
+      expect(screen.getByLabelText('values').textContent).not.toContain('Bob');
+      expect(storage.getItem('test-form')).toBeNull();
+    });
+  });
+
+  test('restores nested values without overwriting untouched defaults', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(
+      'nested-form',
+      JSON.stringify({
+        version: '1',
+        data: { profile: { address: { city: 'Berlin' } } },
+      }),
+    );
+
+    function DefaultsForm() {
+      const form = useForm({
+        defaultValues: { profile: { name: 'Default', address: { city: '' } } },
+      });
+      const { watch } = useFormPersist(form, { key: 'nested-form', storage });
+
+      return <pre aria-label="values">{JSON.stringify(watch())}</pre>;
+    }
+
+    render(<DefaultsForm />);
+
+    const valuesText = screen.getByLabelText('values').textContent ?? '';
+    expect(valuesText).toContain('Default');
+    expect(valuesText).toContain('Berlin');
+  });
+
+  test('re-creates field array items on restore', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(
+      'array-form',
+      JSON.stringify({
+        version: '1',
+        data: {
+          items: [{ name: 'first' }, { name: 'second' }, { name: 'third' }],
+        },
+      }),
+    );
+
+    function FieldArrayForm() {
+      const form = useForm({
+        defaultValues: { items: [{ name: '', note: 'default' }] },
+      });
+      const persisted = useFormPersist(form, { key: 'array-form', storage });
+      const { fields } = useFieldArray({
+        control: persisted.control,
+        name: 'items',
+      });
+
+      return (
+        <>
+          {fields.map((field, index) => (
+            <input
+              key={field.id}
+              aria-label={`item-${index}`}
+              {...persisted.register(`items.${index}.name`)}
+            />
+          ))}
+          <pre aria-label="values">{JSON.stringify(persisted.watch())}</pre>
+        </>
+      );
+    }
+
+    render(<FieldArrayForm />);
 
+    expect(screen.getAllByLabelText(/item-/)).toHaveLength(3);
+    expect(screen.getByLabelText('item-2')).toHaveValue('third');
+    expect(JSON.parse(screen.getByLabelText('values').textContent!)).toEqual({
+      items: [
+        { name: 'first', note: 'default' },
+        { name: 'second', note: 'default' },
+        { name: 'third', note: 'default' },
+      ],
+    });
+  });
+
+  describe('restore modes', () => {
+    const seed = (storage: MemoryStorage) =>
+      storage.setItem(
+        'test-form',
+        JSON.stringify({
+          version: '1',
+          data: { name: 'Bob', email: 'bob@example.com' },
+        }),
+      );
+
+    test('manual mode waits for restoreDraft', async () => {
+      const storage = new MemoryStorage();
+      seed(storage);
+      const onRestore = vi.fn();
+      render(
+        <TestForm
+          storage={storage}
+          options={{ restoreMode: 'manual', onRestore }}
+        />,
+      );
+
+      expect(screen.getByLabelText('has-draft').textContent).toBe('true');
+      expect(screen.getByLabelText('values').textContent).not.toContain('Bob');
+
+      await userEvent.type(screen.getByLabelText('password'), 'x');
+      expect(storage.getItem('test-form')).toContain('Bob');
+
+      await act(async () => {
+        screen.getByRole('button', { name: 'restore-draft' }).click();
+      });
+
+      expect(screen.getByLabelText('has-draft').textContent).toBe('false');
+      expect(screen.getByLabelText('values').textContent).toContain('Bob');
+      expect(onRestore).toHaveBeenCalledWith({
+        name: 'Bob',
+        email: 'bob@example.com',
+      });
+    });
+
+    test('manual mode discards the draft on discardDraft', async () => {
+      const storage = new MemoryStorage();
+      seed(storage);
+      render(<TestForm storage={storage} options={{ restoreMode: 'manual' }} />);
+
+      await act(async () => {
+        screen.getByRole('button', { name: 'discard-draft' }).click();
+      });
+
+      expect(screen.getByLabelText('has-draft').textContent).toBe('false');
+      expect(storage.getItem('test-form')).toBeNull();
+
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+      expect(storage.getItem('test-form')).toContain('Al');
+    });
+
+    test('merge mode keeps values changed before the draft was read', async () => {
+      const storage = new AsyncMemoryStorage();
+      seed(storage.sync);
+      render(<TestForm storage={storage} options={{ restoreMode: 'merge' }} />);
+
+      act(() => {
+        screen.getByRole('button', { name: 'set-name' }).click();
+      });
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('status').textContent).toBe('restored'),
+      );
+      const valuesText = screen.getByLabelText('values').textContent ?? '';
+      expect(valuesText).toContain('Alice');
+      expect(valuesText).toContain('bob@example.com');
+    });
+
+    test('merge mode uses resolveField per field', () => {
+      const storage = new MemoryStorage();
+      seed(storage);
+      const resolveField = vi.fn((path: string, stored: unknown) =>
+        path === 'email' ? 'resolved@example.com' : stored,
+      );
+      render(
+        <TestForm
+          storage={storage}
+          options={{ restoreMode: 'merge', resolveField }}
+        />,
+      );
+
+      expect(resolveField).toHaveBeenCalledWith('name', 'Bob', '');
+      const valuesText = screen.getByLabelText('values').textContent ?? '';
+      expect(valuesText).toContain('Bob');
+      expect(valuesText).toContain('resolved@example.com');
+    });
+
+    test('passes restoreOptions to setValue', () => {
+      const storage = new MemoryStorage();
+      seed(storage);
+
+      function TouchedForm() {
+        const form = useForm({ defaultValues: { name: '', email: '' } });
+        const { formState } = useFormPersist(form, {
+          key: 'test-form',
+          storage,
+          restoreOptions: { shouldTouch: true, shouldDirty: false },
+        });
+
+        return (
+          <>
+            <span aria-label="touched">
+              {Object.keys(formState.touchedFields).join(',')}
+            </span>
+            <span aria-label="dirty">{String(formState.isDirty)}</span>
+          </>
+        );
+      }
+
+      render(<TouchedForm />);
+
+      expect(screen.getByLabelText('touched').textContent).toBe('name,email');
+      expect(screen.getByLabelText('dirty').textContent).toBe('false');
+    });
+  });
+
+  describe('history', () => {
+    const click = async (name: string) => {
+      await act(async () => {
+        screen.getByRole('button', { name }).click();
+      });
+    };
+
+    test('undoes and redoes changes', async () => {
+      const storage = new MemoryStorage();
+      render(<TestForm storage={storage} options={{ history: true }} />);
+
+      expect(screen.getByLabelText('can-undo').textContent).toBe('false');
+
+      await click('set-name');
+      expect(screen.getByLabelText('can-undo').textContent).toBe('true');
+
+      await click('undo');
+      expect(screen.getByLabelText('values').textContent).not.toContain(
+        'Alice',
+      );
+      expect(screen.getByLabelText('can-redo').textContent).toBe('true');
+      expect(JSON.parse(storage.getItem('test-form')!).data.name).toBe('');
+
+      await click('redo');
+      expect(screen.getByLabelText('values').textContent).toContain('Alice');
+      expect(screen.getByLabelText('can-redo').textContent).toBe('false');
+    });
+
+    test('coalesces rapid keystrokes into one step', async () => {
+      render(
+        <TestForm
+          storage={new MemoryStorage()}
+          options={{ history: { coalesceMs: 10_000 } }}
+        />,
+      );
+
+      await userEvent.type(screen.getByLabelText('email'), 'abc');
+      await click('undo');
+
+      expect(screen.getByLabelText('values').textContent).toContain(
+        '"email":""',
+      );
+      expect(screen.getByLabelText('can-undo').textContent).toBe('false');
+    });
+
+    test('persists history without excluded fields and restores it', async () => {
+      const storage = new MemoryStorage();
+      const options = {
+        history: { coalesceMs: 0 },
+        exclude: ['password' as const],
+      };
+      const { unmount } = render(
+        <TestForm storage={storage} options={options} />,
+      );
+
+      await userEvent.type(screen.getByLabelText('password'), 'secret');
+      await click('set-name');
+
+      const stored = storage.getItem('test-form')!;
+      expect(stored).not.toContain('secret');
+      expect(JSON.parse(stored).history.past).toHaveLength(1);
+
+      unmount();
+      render(<TestForm storage={storage} options={options} />);
+
+      expect(screen.getByLabelText('can-undo').textContent).toBe('true');
+      await click('undo');
+      expect(screen.getByLabelText('values').textContent).not.toContain(
+        'Alice',
+      );
+    });
+  });
+
+  test('restores Date values with the structured parser', async () => {
+    const storage = new MemoryStorage();
+
+    type DateValues = { due: Date; tags: Set<string> };
+
+    function DateForm() {
+      const form = useForm<DateValues>({
+        defaultValues: { due: new Date(0), tags: new Set<string>() },
+      });
+      const persisted = useFormPersist<DateValues>(form, {
+        key: 'date-form',
+        storage,
+        parser: STRUCTURED_PARSER,
+      });
+      const { due, tags } = persisted.watch();
+
+      return (
+        <>
+          <button
+            type="button"
+            onClick={() => {
+              persisted.setValue('due', new Date('2030-01-01T00:00:00.000Z'));
+              persisted.setValue('tags', new Set(['a']));
+            }}
+          >
+            set
+          </button>
+          <span aria-label="due">
+            {due instanceof Date ? due.toISOString() : typeof due}
+          </span>
+          <span aria-label="tags">
+            {tags instanceof Set ? [...tags].join(',') : typeof tags}
+          </span>
+        </>
+      );
+    }
+
+    const { unmount } = render(<DateForm />);
+    await act(async () => {
+      screen.getByRole('button', { name: 'set' }).click();
+    });
+
+    unmount();
+    render(<DateForm />);
+
+    expect(screen.getByLabelText('due').textContent).toBe(
+      '2030-01-01T00:00:00.000Z',
+    );
+    expect(screen.getByLabelText('tags').textContent).toBe('a');
+  });
+
+  describe('redaction', () => {
+    function SignUpForm({
+      options,
+    }: {
+      options?: Partial<
+        useFormPersistOptions<{ login: string; code: string; apiToken: string }>
+      >;
+    }) {
+      const form = useForm({
+        defaultValues: { login: '', code: '', apiToken: '' },
+      });
+      const persisted = useFormPersist(form, {
+        key: 'sign-up',
+        storage,
+        redact: true,
+        ...options,
+      });
+
+      return (
+        <>
+          <input aria-label="login" {...persisted.register('login')} />
+          <input
+            aria-label="code"
+            autoComplete="one-time-code"
+            {...persisted.register('code')}
+          />
+          <input aria-label="api-token" {...persisted.register('apiToken')} />
+        </>
+      );
+    }
+
+    let storage: MemoryStorage;
+    beforeEach(() => {
+      storage = new MemoryStorage();
+    });
+
+    test('excludes detected inputs and sensitive names', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      render(<SignUpForm />);
+
+      await userEvent.type(screen.getByLabelText('login'), 'alice');
+      await userEvent.type(screen.getByLabelText('code'), '123456');
+      await userEvent.type(screen.getByLabelText('api-token'), 'abc');
+
+      const raw = await waitFor(() => storage.getItem('sign-up'));
+      expect(JSON.parse(raw!).data).toEqual({ login: 'alice' });
+      expect(warn).toHaveBeenCalledWith('Auto-redacted fields: code, apiToken');
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    test('persists allowed fields', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      render(<SignUpForm options={{ redact: { allow: ['apiToken'] } }} />);
+
+      await userEvent.type(screen.getByLabelText('api-token'), 'abc');
+
+      const raw = await waitFor(() => storage.getItem('sign-up'));
+      expect(JSON.parse(raw!).data.apiToken).toBe('abc');
+      expect(warn).toHaveBeenCalledWith('Auto-redacted fields: code');
+      warn.mockRestore();
+    });
+  });
+
+  describe('server-side rendering', () => {
+    function CheckoutForm({
+      defaults,
+      onChange,
+    }: {
+      defaults: { email: string };
+      onChange: () => void;
+    }) {
+      const form = useForm({ defaultValues: defaults });
+      const persisted = useFormPersist(form, { key: 'checkout', ssr: true });
+      useEffect(() => form.watch(onChange).unsubscribe, [form, onChange]);
+
+      return (
+        <>
+          <input aria-label="email" {...persisted.register('email')} />
+          <span aria-label="dirty">{String(form.formState.isDirty)}</span>
+        </>
+      );
+    }
+
+    afterEach(() => {
+      document.cookie = 'checkout=; path=/; max-age=0';
+    });
+
+    test('leaves server-seeded fields untouched and saves to cookies', async () => {
+      const draft = { version: '1', data: { email: 'bob@example.com' } };
+      document.cookie = `checkout=${encodeURIComponent(JSON.stringify(draft))}`;
+
+      const onChange = vi.fn();
+      render(
+        <CheckoutForm defaults={{ email: 'bob@example.com' }} onChange={onChange} />,
+      );
+
+      expect(screen.getByLabelText('email')).toHaveProperty(
+        'value',
+        'bob@example.com',
+      );
+      expect(screen.getByLabelText('dirty').textContent).toBe('false');
+      expect(onChange).not.toHaveBeenCalled();
+
+      await userEvent.type(screen.getByLabelText('email'), 'm');
+
+      const raw = parseCookies(document.cookie).checkout;
+      expect(JSON.parse(raw).data).toEqual({ email: 'bob@example.comm' });
+    });
+  });
+
+  describe('remote sync', () => {
+    type Values = { name?: string; email?: string; password?: string };
+
+    const envelope = (name: string, savedAt: number) => ({
+      version: '1',
+      data: { name },
+      savedAt,
+    });
+
+    let storage: MemoryStorage;
+    let server: Map<string, VersionedData<Values>>;
+    let remote: RemoteAdapter<Values> & { push: ReturnType<typeof vi.fn> };
+    beforeEach(() => {
+      storage = new MemoryStorage();
+      server = new Map();
+      remote = {
+        pull: async (key) => server.get(key) ?? null,
+        push: vi.fn(async (key: string, draft: VersionedData<Values>) => {
+          server.set(key, draft);
+        }),
+      };
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    test('applies a newer remote draft and caches it locally', async () => {
+      storage.setItem('test-form', JSON.stringify(envelope('Alice', 1)));
+      server.set('test-form', envelope('Bob', 2));
+
+      render(<TestForm storage={storage} options={{ remote }} />);
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('values').textContent).toContain('Bob'),
+      );
+      expect(JSON.parse(storage.getItem('test-form')!)).toMatchObject(
+        envelope('Bob', 2),
+      );
+      expect(remote.push).not.toHaveBeenCalled();
+      expect(screen.getByLabelText('sync-status').textContent).toBe('idle');
+    });
+
+    test('reports a remote draft that fails to apply', async () => {
+      server.set('test-form', envelope('Bob', 2));
+      const onError = vi.fn();
+      const onRestore = () => {
+        throw new Error('boom');
+      };
+
+      render(
+        <TestForm storage={storage} options={{ remote, onError, onRestore }} />,
+      );
+
+      await waitFor(() =>
+        expect(onError).toHaveBeenCalledWith('sync', new Error('boom')),
+      );
+    });
+
+    test('pushes a newer local draft and later changes', async () => {
+      storage.setItem('test-form', JSON.stringify(envelope('Alice', 2)));
+      server.set('test-form', envelope('Bob', 1));
+
+      render(<TestForm storage={storage} options={{ remote }} />);
+
+      await waitFor(() =>
+        expect(server.get('test-form')).toMatchObject(envelope('Alice', 2)),
+      );
+      expect(screen.getByLabelText('values').textContent).toContain('Alice');
+
+      await userEvent.type(screen.getByLabelText('email'), 'a');
+      await waitFor(() =>
+        expect(server.get('test-form')?.data.email).toBe('a'),
+      );
+    });
+
+    test('queues changes while offline', async () => {
+      const onLine = vi
+        .spyOn(navigator, 'onLine', 'get')
+        .mockReturnValue(false);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      remote.pull = async () => {
+        throw new Error('offline');
+      };
+
+      render(<TestForm storage={storage} options={{ remote }} />);
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+      expect(screen.getByLabelText('sync-status').textContent).toBe('offline');
+      expect(remote.push).not.toHaveBeenCalled();
+
+      onLine.mockReturnValue(true);
+      await act(async () => {
+        window.dispatchEvent(new Event('online'));
+      });
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('sync-status').textContent).toBe('idle'),
+      );
+      expect(server.get('test-form')?.data.name).toBe('Al');
+    });
+  });
+
+  describe('persisted meta', () => {
+    function ProfileForm({ storage }: { storage: PersistStorage }) {
+      const form = useForm({
+        defaultValues: { name: '', email: '' },
+        mode: 'onBlur',
+      });
+      const persisted = useFormPersist(form, {
+        key: 'profile',
+        storage,
+        persistMeta: true,
+      });
+      const { touchedFields, errors } = persisted.formState;
+
+      return (
+        <>
+          <input aria-label="name" {...persisted.register('name')} />
+          <input
+            aria-label="email"
+            {...persisted.register('email', { required: 'Required' })}
+          />
+          <span aria-label="touched">{JSON.stringify(touchedFields)}</span>
+          <span aria-label="error">{errors.email?.message}</span>
+        </>
+      );
+    }
+
+    test('restores touched fields and validation errors', async () => {
+      const storage = new MemoryStorage();
+      const { unmount } = render(<ProfileForm storage={storage} />);
+
+      await userEvent.click(screen.getByLabelText('email'));
+      await userEvent.tab();
+      await waitFor(() =>
+        expect(JSON.parse(storage.getItem('profile')!).meta).toMatchObject({
+          touched: ['email'],
+          errors: ['email'],
+        }),
+      );
+      unmount();
+
+      render(<ProfileForm storage={storage} />);
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('error').textContent).toBe('Required'),
+      );
+      expect(screen.getByLabelText('touched').textContent).toBe(
+        '{"email":true}',
+      );
+    });
+
+    test('focuses the last active field at its caret', async () => {
+      const storage = new MemoryStorage();
+      const { unmount } = render(<ProfileForm storage={storage} />);
+
+      await userEvent.type(screen.getByLabelText('name'), 'Alce');
+      await userEvent.keyboard('{ArrowLeft}{ArrowLeft}i');
+      unmount();
+
+      render(<ProfileForm storage={storage} />);
+
+      const name = screen.getByLabelText('name') as HTMLInputElement;
+      expect(document.activeElement).toBe(name);
+      expect(name.value).toBe('Alice');
+      expect(name.selectionStart).toBe(3);
+    });
+
+    test('ignores focused inputs of other forms', async () => {
+      const storage = new MemoryStorage();
+      render(
+        <>
+          <ProfileForm storage={storage} />
+          <input aria-label="search" name="name" />
+        </>,
+      );
+
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+      await waitFor(() =>
+        expect(JSON.parse(storage.getItem('profile')!).meta.focus).toEqual({
+          name: 'name',
+          selectionStart: 2,
+          selectionEnd: 2,
+        }),
+      );
+
+      await userEvent.click(screen.getByLabelText('search'));
+      await waitFor(() =>
+        expect(JSON.parse(storage.getItem('profile')!).meta.focus).toBe(
+          undefined,
+        ),
+      );
+    });
+
+    test('skips meta without form.subscribe', async () => {
+      const logger = { debug: vi.fn(), warn: vi.fn() };
+
+      function LegacyForm() {
+        const form = useForm({ defaultValues: { name: '' } });
+        // react-hook-form before 7.55
+        const legacy = useMemo(
+          () => ({ ...form, subscribe: undefined }) as unknown as typeof form,
+          [form],
+        );
+        const persisted = useFormPersist(legacy, {
+          key: 'profile',
+          storage,
+          persistMeta: true,
+          logger,
+        });
+
+        return <input aria-label="name" {...persisted.register('name')} />;
+      }
+
+      const storage = new MemoryStorage();
+      render(<LegacyForm />);
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+      const stored = JSON.parse(storage.getItem('profile')!);
+      expect(stored.data).toEqual({ name: 'Al' });
+      expect(stored.meta).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('react-hook-form 7.55'),
+      );
+    });
+  });
+
+  describe('clear policies', () => {
+    type Values = { name: string };
+
+    function OrderForm({
+      options,
+      onValid = () => undefined,
+      wrapped = true,
+    }: {
+      options?: Partial<useFormPersistOptions<Values>>;
+      onValid?: (values: Values) => unknown;
+      wrapped?: boolean;
+    }) {
+      const form = useForm<Values>({ defaultValues: { name: '' } });
+      const persisted = useFormPersist(form, {
+        key: 'order',
+        storage,
+        ...options,
+      });
+      const handleSubmit = wrapped ? persisted.handleSubmit : form.handleSubmit;
+
+      return (
+        <form onSubmit={(event) => handleSubmit(onValid)(event).catch(() => {})}>
+          <input aria-label="name" {...persisted.register('name')} />
+          <button type="submit">submit</button>
+          <button type="button" onClick={() => persisted.reset()}>
+            reset
+          </button>
+          <pre aria-label="last-submitted">
+            {JSON.stringify(persisted.lastSubmitted)}
+          </pre>
+        </form>
+      );
+    }
+
+    let storage: MemoryStorage;
+    beforeEach(() => {
+      storage = new MemoryStorage();
+    });
+
+    test('submit-success keeps the draft until onValid resolves', async () => {
+      const onValid = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Server error'))
+        .mockResolvedValueOnce(undefined);
+      render(
+        <OrderForm options={{ clearOn: ['submit-success'] }} onValid={onValid} />,
+      );
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+      await userEvent.click(screen.getByRole('button', { name: 'submit' }));
+      expect(onValid).toHaveBeenCalledTimes(1);
+      expect(storage.getItem('order')).toContain('Al');
+
+      await userEvent.click(screen.getByRole('button', { name: 'submit' }));
+      await waitFor(() => expect(storage.getItem('order')).toBeNull());
+    });
+
+    test('reset clears the draft', async () => {
+      render(<OrderForm options={{ clearOn: ['reset'] }} />);
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+      await userEvent.click(screen.getByRole('button', { name: 'reset' }));
+
+      expect(storage.getItem('order')).toBeNull();
+      expect(screen.getByLabelText('name')).toHaveProperty('value', '');
+    });
+
+    test('isSubmitSuccessful clears the draft after any submit', async () => {
+      render(
+        <OrderForm options={{ clearOn: ['isSubmitSuccessful'] }} wrapped={false} />,
+      );
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+      await userEvent.click(screen.getByRole('button', { name: 'submit' }));
+
+      await waitFor(() => expect(storage.getItem('order')).toBeNull());
+    });
+
+    test('unmount clears the draft', async () => {
+      const { unmount } = render(
+        <OrderForm options={{ clearOn: ['unmount'], debounceMs: 1000 }} />,
+      );
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+      unmount();
+
+      expect(storage.getItem('order')).toBeNull();
+    });
+
+    test('unmount keeps the draft through StrictMode remounts', async () => {
+      storage.setItem(
+        'order',
+        JSON.stringify({ version: '1', data: { name: 'Al' } }),
+      );
+      const { unmount } = render(
+        <StrictMode>
+          <OrderForm options={{ clearOn: ['unmount'] }} />
+        </StrictMode>,
+      );
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('name')).toHaveValue('Al'),
+      );
+      await advanceSaves();
+      expect(JSON.parse(storage.getItem('order')!).data).toEqual({
+        name: 'Al',
+      });
+
+      unmount();
+
+      await waitFor(() => expect(storage.getItem('order')).toBeNull());
+    });
+
+    test('keeps the last submitted values apart from the draft', async () => {
+      const { unmount } = render(<OrderForm options={{ keepSubmitted: true }} />);
+      await userEvent.type(screen.getByLabelText('name'), 'Al');
+
+      await userEvent.click(screen.getByRole('button', { name: 'submit' }));
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('last-submitted').textContent).toBe(
+          '{"name":"Al"}',
+        ),
+      );
+      expect(storage.getItem('order')).toBeNull();
+      expect(storage.getItem('order:submitted')).toContain('Al');
+      unmount();
+
+      render(<OrderForm options={{ keepSubmitted: true }} />);
+      expect(screen.getByLabelText('last-submitted').textContent).toBe(
+        '{"name":"Al"}',
+      );
+      expect(screen.getByLabelText('name')).toHaveProperty('value', '');
+    });
+  });
+
+  describe('schema validation', () => {
+    type Values = { name?: string; email?: string; password?: string };
+
+    const schema: StandardSchema = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const { name, email } = value as Values;
+          const issues = [];
+          if (typeof name !== 'string')
+            issues.push({ message: 'Expected string', path: ['name'] });
+          if (!email?.includes('@'))
+            issues.push({ message: 'Invalid email', path: ['email'] });
+          return issues.length ? { issues } : { value };
+        },
+      },
+    };
+
+    test('restores only the fields that pass', () => {
+      const storage = new MemoryStorage();
+      storage.setItem(
+        'test-form',
+        JSON.stringify({
+          version: '1',
+          data: { name: 42, email: 'bob@example.com', password: 'x' },
+        }),
+      );
+      const onEvent = vi.fn();
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      render(<TestForm storage={storage} options={{ schema, onEvent }} />);
+
+      expect(JSON.parse(screen.getByLabelText('values').textContent!)).toEqual({
+        name: '',
+        email: 'bob@example.com',
+        password: 'x',
+      });
+      expect(onEvent).toHaveBeenCalledWith({
+        type: 'restore:skip-field',
+        key: 'test-form',
+        path: 'name',
+        reason: 'Expected string',
+      });
+      expect(warn).toHaveBeenCalledWith(
+        'Dropping invalid field: name (Expected string)',
+      );
+      warn.mockRestore();
+    });
+
+    test('drops invalid fields of changes from other tabs', async () => {
+      const onEvent = vi.fn();
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      render(
+        <TestForm
+          storage={localStorage}
+          options={{ schema, onEvent, syncTabs: true }}
+        />,
+      );
+
+      const newValue = JSON.stringify({
+        version: '1',
+        data: { name: 42, email: 'bob@example.com' },
+      });
+      act(() => {
+        window.dispatchEvent(
+          new StorageEvent('storage', {
+            key: 'test-form',
+            newValue,
+            storageArea: localStorage,
+          }),
+        );
+      });
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('values').textContent).toContain(
+          'bob@example.com',
+        ),
+      );
+      expect(
+        JSON.parse(screen.getByLabelText('values').textContent!).name,
+      ).toBe('');
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'restore:skip-field', path: 'name' }),
+      );
+      warn.mockRestore();
+      localStorage.clear();
+    });
+
+    test('validates the form after restoring with a resolver', async () => {
+      const resolver: Resolver<Values> = async (values) =>
+        values.email?.includes('@')
+          ? { values, errors: {} }
+          : {
+              values: {},
+              errors: { email: { type: 'pattern', message: 'Invalid email' } },
+            };
+
+      function ResolverForm() {
+        const form = useForm<Values>({
+          defaultValues: { email: '' },
+          resolver,
+        });
+        useFormPersist(form, {
+          key: 'resolver-form',
+          storage,
+          schema: resolver,
+          revalidateOnRestore: true,
+        });
+
+        return (
+          <span aria-label="error">
+            {form.formState.errors.email?.message}
+          </span>
+        );
+      }
+
+      const storage = new MemoryStorage();
+      storage.setItem(
+        'resolver-form',
+        JSON.stringify({ version: '1', data: { email: 'bob' } }),
+      );
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      render(<ResolverForm />);
+
+      await waitFor(() =>
+        expect(warn).toHaveBeenCalledWith(
+          'Dropping invalid field: email (Invalid email)',
+        ),
+      );
+      await waitFor(() =>
+        expect(screen.getByLabelText('error').textContent).toBe(
+          'Invalid email',
+        ),
+      );
+      warn.mockRestore();
+    });
+  });
+
+  describe('dynamic keys', () => {
+    interface Values {
+      id: number;
+      note: string;
+    }
+
+    const draft = (note: string) =>
+      JSON.stringify({ version: '1', data: { note } });
+    const storedNote = (storage: Storage, key: string) =>
+      JSON.parse(storage.getItem(key) ?? '{}').data?.note;
+
+    test('saves the previous draft and loads the new one', async () => {
+      function RecordForm({ record }: { record: Values }) {
+        const form = useForm<Values>({ values: record });
+        const persisted = useFormPersist(form, {
+          key: `record-${record.id}`,
+          storage,
+          debounceMs: 1000,
+        });
+
+        return <input aria-label="note" {...persisted.register('note')} />;
+      }
+
+      const storage = new MemoryStorage();
+      storage.setItem('record-13', draft('Draft of 13'));
+
+      const { rerender } = render(<RecordForm record={{ id: 12, note: '' }} />);
+      await userEvent.type(screen.getByLabelText('note'), 'Edit of 12');
+
+      rerender(<RecordForm record={{ id: 13, note: 'Saved 13' }} />);
+
+      expect(storedNote(storage, 'record-12')).toBe('Edit of 12');
+      await waitFor(() =>
+        expect(screen.getByLabelText('note')).toHaveValue('Draft of 13'),
+      );
+
+      rerender(<RecordForm record={{ id: 14, note: 'Saved 14' }} />);
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('note')).toHaveValue('Saved 14'),
+      );
+      expect(storedNote(storage, 'record-13')).toBe('Draft of 13');
+      expect(storage.getItem('record-14')).toBeNull();
+    });
+
+    test('derives the key from the values', async () => {
+      function OrderForm() {
+        const form = useForm<Values>({ defaultValues: { id: 1, note: '' } });
+        const persisted = useFormPersist(form, {
+          key: (values) => `order-${values.id}`,
+          storage,
+          debounceMs: 1000,
+        });
+
+        return (
+          <>
+            <input aria-label="note" {...persisted.register('note')} />
+            <button onClick={() => form.reset({ id: 2, note: '' })}>
+              Next
+            </button>
+          </>
+        );
+      }
+
+      const storage = new MemoryStorage();
+      storage.setItem('order-2', draft('Draft of 2'));
+
+      render(<OrderForm />);
+      await userEvent.type(screen.getByLabelText('note'), 'Edit of 1');
+      await userEvent.click(screen.getByText('Next'));
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('note')).toHaveValue('Draft of 2'),
+      );
+      expect(storedNote(storage, 'order-1')).toBe('Edit of 1');
+      expect(storedNote(storage, 'order-2')).toBe('Draft of 2');
+    });
+
+    test('keeps an edit that derives another key', async () => {
+      function TicketForm() {
+        const form = useForm({ defaultValues: { kind: 'a', note: '' } });
+        const persisted = useFormPersist(form, {
+          key: (values) => `kind-${values.kind}`,
+          storage,
+        });
+
+        return (
+          <>
+            <select aria-label="kind" {...persisted.register('kind')}>
+              <option value="a">A</option>
+              <option value="b">B</option>
+              <option value="c">C</option>
+            </select>
+            <input aria-label="note" {...persisted.register('note')} />
+          </>
+        );
+      }
+
+      const storage = new MemoryStorage();
+      storage.setItem(
+        'kind-c',
+        JSON.stringify({ version: '1', data: { kind: 'c', note: 'Draft of c' } }),
+      );
+
+      render(<TicketForm />);
+      await userEvent.type(screen.getByLabelText('note'), 'Edit');
+      await userEvent.selectOptions(screen.getByLabelText('kind'), 'b');
+
+      await waitFor(() =>
+        expect(storedNote(storage, 'kind-b')).toBe('Edit'),
+      );
+      expect(screen.getByLabelText('kind')).toHaveValue('b');
+      expect(storedNote(storage, 'kind-a')).toBe('Edit');
+
+      await userEvent.selectOptions(screen.getByLabelText('kind'), 'c');
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('note')).toHaveValue('Draft of c'),
+      );
+      expect(screen.getByLabelText('kind')).toHaveValue('c');
+
+      await userEvent.type(screen.getByLabelText('note'), '!');
+      expect(storedNote(storage, 'kind-c')).toBe('Draft of c!');
+    });
+  });
+
+  describe('checkpoints', () => {
+    function ApplicationForm({ storage }: { storage: PersistStorage }) {
+      const form = useForm<{ summary: string }>({
+        defaultValues: { summary: '' },
+      });
+      const persisted = useFormPersist(form, { key: 'application', storage });
+      const [names, setNames] = useState<string[]>([]);
+
+      const refresh = async () => {
+        const checkpoints = await persisted.listCheckpoints();
+        setNames(checkpoints.map(({ name }) => name));
+      };
+
+      return (
+        <>
+          <input aria-label="summary" {...persisted.register('summary')} />
+          <button
+            onClick={async () => {
+              await persisted.saveCheckpoint('first');
+              await refresh();
+            }}
+          >
+            Save
+          </button>
+          <button onClick={() => persisted.restoreCheckpoint('first')}>
+            Restore
+          </button>
+          <button
+            onClick={async () => {
+              await persisted.deleteCheckpoint('first');
+              await refresh();
+            }}
+          >
+            Delete
+          </button>
+          <span aria-label="checkpoints">{names.join(',')}</span>
+        </>
+      );
+    }
+
+    test('saves, restores and deletes named checkpoints', async () => {
+      const storage = new MemoryStorage();
+      render(<ApplicationForm storage={storage} />);
+      const input = screen.getByLabelText('summary');
+
+      await userEvent.type(input, 'First version');
+      await userEvent.click(screen.getByText('Save'));
+      expect(screen.getByLabelText('checkpoints').textContent).toBe('first');
+      expect(
+        JSON.parse(storage.getItem('application:checkpoint:first')!),
+      ).toMatchObject({ version: '1', data: { summary: 'First version' } });
+
+      await userEvent.clear(input);
+      await userEvent.type(input, 'Second version');
+      await userEvent.click(screen.getByText('Restore'));
+
+      expect(input).toHaveValue('First version');
+      expect(JSON.parse(storage.getItem('application')!).data).toEqual({
+        summary: 'First version',
+      });
+
+      await userEvent.click(screen.getByText('Delete'));
+      expect(screen.getByLabelText('checkpoints').textContent).toBe('');
+      expect(storage.getItem('application:checkpoint:first')).toBeNull();
+    });
+  });
+
+  describe('dirty-only drafts', () => {
+    const storage = new MemoryStorage();
+
+    function PlanForm({ plan }: { plan: string }) {
+      const form = useForm({ defaultValues: { name: '', plan } });
+      const persisted = useFormPersist(form, {
+        key: 'plan-form',
+        storage,
+        persistMode: 'dirty-only',
+      });
+
+      return (
+        <>
+          <input aria-label="name" {...persisted.register('name')} />
+          <input aria-label="plan" {...persisted.register('plan')} />
+        </>
+      );
+    }
+
+    test('restores the changed fields over new defaults', async () => {
+      const { unmount } = render(<PlanForm plan="basic" />);
+      await userEvent.type(screen.getByLabelText('name'), 'Alice');
+
+      expect(JSON.parse(storage.getItem('plan-form')!).data).toEqual({
+        name: 'Alice',
+      });
+      unmount();
+
+      render(<PlanForm plan="pro" />);
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('name')).toHaveValue('Alice'),
+      );
+      expect(screen.getByLabelText('plan')).toHaveValue('pro');
+    });
+
+    test('stores the history as patches', async () => {
+      function HistoryForm({ plan }: { plan: string }) {
+        const form = useForm({ defaultValues: { name: '', plan } });
+        const persisted = useFormPersist(form, {
+          key: 'plan-history',
+          storage,
+          persistMode: 'dirty-only',
+          history: true,
+        });
+
+        return (
+          <>
+            <input aria-label="name" {...persisted.register('name')} />
+            <input aria-label="plan" {...persisted.register('plan')} />
+            <button onClick={persisted.undo}>undo</button>
+          </>
+        );
+      }
+
+      const { unmount } = render(<HistoryForm plan="basic" />);
+      await userEvent.type(screen.getByLabelText('name'), 'Alice');
+
+      expect(JSON.parse(storage.getItem('plan-history')!).history).toEqual({
+        past: [{}],
+        future: [],
+      });
+      unmount();
+
+      render(<HistoryForm plan="pro" />);
+      await waitFor(() =>
+        expect(screen.getByLabelText('name')).toHaveValue('Alice'),
+      );
+
+      await userEvent.click(screen.getByText('undo'));
+      expect(screen.getByLabelText('name')).toHaveValue('');
+      expect(screen.getByLabelText('plan')).toHaveValue('pro');
+    });
+  });
+});
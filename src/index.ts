@@ -1,20 +1,166 @@
-import { FieldValues, Path, PathValue, UseFormReturn } from "react-hook-form";
-import { useCallback, useEffect, useMemo } from "react";
-import { deleteIn, getIn, setIn } from "./internal/deep-copy";
+import {
+  FieldValues,
+  Path,
+  PathValue,
+  SetValueConfig,
+  UseFormRegister,
+  UseFormReset,
+  UseFormReturn
+} from "react-hook-form";
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState
+} from "react";
+import {
+  createFormPersister,
+  FormPersisterOptions,
+  INITIAL_VERSION
+} from "./core";
+import { getIn, setIn } from "./internal/deep-copy";
+import {
+  createHistory,
+  HistoryState,
+  record,
+  redo as redoHistory,
+  undo as undoHistory
+} from "./internal/history";
+import { createCheckpointStore } from "./internal/checkpoints";
+import { attempt, chain, MaybePromise } from "./internal/maybe-promise";
+import {
+  diffValues,
+  isEqual,
+  layerValues,
+  planRestore
+} from "./internal/merge";
+import {
+  ALL_META,
+  applyMeta,
+  captureMeta,
+  MetaState,
+  PersistMetaOptions
+} from "./internal/meta";
+import { isSensitiveElement } from "./internal/redact";
+import { registerPersister } from "./internal/registry";
+import {
+  createRemoteSync,
+  isNewerDraft,
+  RemoteAdapter,
+  RemoteSync,
+  SyncStatus
+} from "./internal/remote-sync";
+import { createScheduler } from "./internal/scheduler";
+import { DraftSchema, dropInvalid, findIssues } from "./internal/schema";
+import { usePersistGroupContext } from "./group";
+import { createCookieStorage } from "./storage/cookie";
+import { VersionedData } from "./parsers/types";
 
-const IS_BROWSER = typeof window !== "undefined";
-const INITIAL_VERSION = "1";
+export { createFormPersister } from "./core";
+export type {
+  FormPersister,
+  FormPersisterOptions,
+  PersistErrorKind,
+  PersisterEvent,
+  PersistLogger,
+  RedactOptions,
+  SaveOptions,
+  StoredDraft
+} from "./core";
+export { FormPersistDevtools } from "./devtools";
+export { listDrafts } from "./drafts";
+export type { DraftEntry, ListDraftsOptions } from "./drafts";
+export type { FormPersistDevtoolsProps } from "./devtools";
+export type {
+  MigrationFn,
+  MigrationReport,
+  MigrationStep,
+  Migrations
+} from "./internal/migrate";
+export type { PersistStorage } from "./storage/types";
+export type { MaybePromise } from "./internal/maybe-promise";
+export type { PathPattern } from "./internal/path-pattern";
+export type { PersistMetaOptions } from "./internal/meta";
+export type { Checkpoint } from "./internal/checkpoints";
+export type {
+  DraftSchema,
+  SchemaIssue,
+  StandardSchema
+} from "./internal/schema";
+export type { RemoteAdapter, SyncStatus } from "./internal/remote-sync";
+export { createIndexedDBStorage } from "./storage/indexed-db";
+export type { IndexedDBStorageOptions } from "./storage/indexed-db";
+export { createCookieStorage, parseCookies } from "./storage/cookie";
+export type { CookieStorageOptions } from "./storage/cookie";
+export { getPersistedDefaults } from "./ssr";
+export type { PersistedDefaultsOptions } from "./ssr";
+export { QuotaExceededError } from "./storage/quota";
+export type {
+  PersistedMeta,
+  PersistParser,
+  Version,
+  VersionedData
+} from "./parsers/types";
+export { DEFAULT_PARSER } from "./parsers/default";
+export {
+  createPersistGroup,
+  FormPersistProvider,
+  useFormPersistGroup
+} from "./group";
+export type { PersistGroup, PersistGroupOptions } from "./group";
+export { createEncryptedParser, DecryptionError } from "./parsers/encrypted";
+export type { EncryptedParserOptions } from "./parsers/encrypted";
+export { createCompressedParser } from "./parsers/compressed";
+export type { CompressedParserOptions, Compressor } from "./parsers/compressed";
+export {
+  createStructuredParser,
+  STRUCTURED_PARSER
+} from "./parsers/structured";
+export type {
+  BlobStore,
+  Codec,
+  PersistedFile,
+  StructuredParserOptions
+} from "./parsers/structured";
 
-type Version = string;
+// Checked on every call, not at module load, so the same bundle works
+// on the server and in the browser
+const isBrowser = () => typeof window !== "undefined";
+const SYNC_CHANNEL = "use-react-hook-form-persist";
+
+// Layout effects warn when rendering on the server
+const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? useLayoutEffect : useEffect;
 
 /**
- * Wraps the form data with version information.
- *
- * @template T - The shape of your form values (inferred from react-hook-form).
+ * How stored drafts are applied to the form.
+ * - `auto`: restore as soon as the draft is read
+ * - `manual`: expose the draft with `hasDraft` and wait for `restoreDraft()` or `discardDraft()`
+ * - `merge`: restore as soon as the draft is read, resolving each field with `resolveField`
+ */
+export type RestoreMode = "auto" | "manual" | "merge";
+
+/**
+ * When the stored draft is cleared.
+ * - `submit`: on a valid submit through the returned `handleSubmit`, before `onValid` runs
+ * - `submit-success`: once `onValid` returned or its promise resolved; the draft is kept if it throws or rejects
+ * - `reset`: when the returned `reset` is called
+ * - `isSubmitSuccessful`: when `formState.isSubmitSuccessful` becomes true, whichever `handleSubmit` was used
+ * - `unmount`: when the form unmounts, e.g. on a route change, but not on StrictMode remounts
  */
-interface VersionedData<T extends FieldValues> {
-  version: Version;
-  data: Partial<T>;
+export type ClearTrigger =
+  "submit" | "submit-success" | "reset" | "isSubmitSuccessful" | "unmount";
+
+/**
+ * Options for undo/redo history.
+ */
+export interface HistoryOptions {
+  /** The maximum number of undo steps to keep. Defaults to 50. */
+  limit?: number;
+  /** Changes within this many milliseconds of the last one are merged into one step. Defaults to 500. */
+  coalesceMs?: number;
 }
 
 /**
@@ -22,48 +168,173 @@ interface VersionedData<T extends FieldValues> {
  *
  * @template T - The shape of your form values (inferred from react-hook-form).
  */
-export interface useFormPersistOptions<T extends FieldValues> {
-  key: string;
+export interface useFormPersistOptions<T extends FieldValues> extends Omit<
+  FormPersisterOptions<T>,
+  "key"
+> {
+  /**
+   * The storage key of the draft, or a function deriving it from the values,
+   * e.g. `(values) => \`order-${values.id}\``, followed as the values change.
+   * When the key changes, pending changes are written to the previous draft
+   * and the draft of the new key is restored. A changed `key` string resets the form
+   * to its default values first: pass the values of the new record with `useForm({ values })`
+   * so they are the defaults. A derived key keeps the current values, and an edit
+   * that changed it is saved to the new draft.
+   */
+  key: string | ((values: T) => string);
+
+  /**
+   * Same as `clearOn: ["submit"]`. Defaults to true. Ignored when `clearOn` is set.
+   */
   clearOnSubmit?: boolean;
 
   /**
-   * Fields to exclude from persistence.
-   * @example ['password', 'creditCard.number']
+   * When to clear the stored draft, see `ClearTrigger`.
+   * @example ['submit-success', 'reset']
    */
-  exclude?: Path<T>[];
+  clearOn?: ClearTrigger[];
 
   /**
-   * Fields to include in persistence. If specified, only these fields will be persisted.
-   * @example ['email', 'preferences.notifications']
+   * Keep the values of the last successful submit through the returned `handleSubmit`,
+   * stored apart from the draft under `<key>:submitted` and exposed as `lastSubmitted`.
+   * Clearing the draft keeps them.
    */
-  include?: Path<T>[];
+  keepSubmitted?: boolean;
 
   /**
-   * The storage to use. Defaults to localStorage.
-   * You can provide your own storage implementation that matches the Storage interface.
+   * Wait for this many milliseconds without changes before writing.
+   * Pending writes are flushed on page hide and on unmount.
    */
-  storage?: Storage;
+  debounceMs?: number;
 
   /**
-   * Custom parser for serialization/deserialization.
-   * Defaults to JSON.stringify / JSON.parse.
+   * Write at most once per this many milliseconds.
+   * Combined with `debounceMs`, caps how long writes can be delayed.
    */
-  parser?: {
-    serialize: (data: VersionedData<T>) => string;
-    deserialize: (data: string) => VersionedData<T>;
-  };
+  throttleMs?: number;
 
-  version?: Version;
-  onVersionMismatch?: (storedVersion: Version, currentVersion: Version) => void;
-}
+  /**
+   * Apply changes made to the same draft in other tabs.
+   * Uses the `storage` event for localStorage and a BroadcastChannel for other storages.
+   */
+  syncTabs?: boolean;
+
+  /**
+   * What to do when a change from another tab arrives while this tab has its own edits.
+   * Defaults to "last-write-wins". "keep-local" writes this tab's values back over the other tab's.
+   * Ignored when `onConflict` is provided.
+   */
+  conflict?: "last-write-wins" | "keep-local";
+
+  /**
+   * Resolve a conflict between this tab's values and another tab's values.
+   * The returned values are applied to the form and persisted.
+   */
+  onConflict?: (local: Partial<T>, remote: Partial<T>) => Partial<T>;
+
+  /**
+   * How stored drafts are applied to the form. Defaults to "auto".
+   * In "manual" mode changes are not persisted until the draft is restored or discarded,
+   * so the draft is never overwritten before the user decides.
+   */
+  restoreMode?: RestoreMode;
+
+  /**
+   * Pick the value of each field in "merge" mode.
+   * Defaults to keeping values that already differ from the default values
+   * (e.g. loaded from a server) and restoring the stored value otherwise.
+   */
+  resolveField?: (
+    path: Path<T>,
+    storedValue: unknown,
+    currentValue: unknown
+  ) => unknown;
+
+  /**
+   * Options passed to `setValue` when restoring.
+   * Defaults to `{ shouldDirty: true, shouldValidate: false }`.
+   */
+  restoreOptions?: SetValueConfig;
+
+  /**
+   * Called after a draft has been applied to the form.
+   */
+  onRestore?: (values: Partial<T>) => void;
+
+  /**
+   * Keep undo/redo history, persisted alongside the draft.
+   * Snapshots respect `include` / `exclude`, so excluded fields are never recorded.
+   * History is dropped when stored data is migrated.
+   */
+  history?: boolean | HistoryOptions;
+
+  /**
+   * Inside a `FormPersistProvider`, clear the whole group once this form's
+   * `handleSubmit` succeeds (after an async `onValid` resolves).
+   */
+  finalStep?: boolean;
+
+  /**
+   * Server-side rendering mode. Drafts are kept in cookies (unless `storage` is set)
+   * so `getPersistedDefaults` can seed `defaultValues` on the server, and restoring
+   * skips fields that already hold the stored value, so seeded fields are neither
+   * set again nor marked dirty.
+   */
+  ssr?: boolean;
+
+  /**
+   * Sync drafts with a server, so they follow the user across devices.
+   * The `storage` stays the offline cache: the remote draft is pulled after restoring
+   * and applied when it is newer, and every save is pushed, queued while offline
+   * and retried on failure. A local draft newer than the remote one is pushed on load,
+   * so changes made offline are sent even after a reload.
+   */
+  remote?: RemoteAdapter<T>;
+
+  /**
+   * Persist parts of `formState` with the values and re-apply them on restore:
+   * dirty and touched flags, validation errors (by validating those fields again)
+   * and the focused field with its caret. `true` persists all of them.
+   * Meta is dropped when stored data is migrated.
+   * Needs `form.subscribe` (react-hook-form 7.55+), it is skipped with a warning on older versions.
+   */
+  persistMeta?: boolean | PersistMetaOptions;
+
+  /**
+   * Validate stored drafts before restoring them, with a Standard Schema
+   * (e.g. a Zod, Valibot or ArkType schema) or a react-hook-form resolver.
+   * The draft is checked merged into the current values; stored fields that fail
+   * are not restored and reported as `restore:skip-field` events with the reason.
+   */
+  schema?: DraftSchema<T>;
+
+  /**
+   * Validate the form after a draft was restored, so errors of restored values show.
+   */
+  revalidateOnRestore?: boolean;
+
+  /**
+   * The number of named checkpoints to keep (see `saveCheckpoint`),
+   * the oldest are deleted first. Defaults to 10.
+   */
+  maxCheckpoints?: number;
 
-export const DEFAULT_PARSER = {
-  serialize: <T extends FieldValues>(data: VersionedData<T>) =>
-    JSON.stringify(data),
+  /**
+   * What the draft holds. Defaults to "full".
+   * - `full`: all the values, after `include` / `exclude`
+   * - `dirty-only`: only the values that differ from `formState.defaultValues`,
+   *   restored over the current default values, so defaults updated in a release
+   *   show through for the fields the user never changed. The draft is then a patch,
+   *   e.g. for `onRestore`, `listDrafts` and `getPersistedDefaults`.
+   *   Undo/redo history is stored as patches as well.
+   */
+  persistMode?: "full" | "dirty-only";
+}
 
-  deserialize: <T extends FieldValues>(data: string): VersionedData<T> =>
-    JSON.parse(data) as VersionedData<T>
-};
+interface SyncMessage {
+  key: string;
+  raw: string;
+}
 
 /**
  * Add persistence to the form
@@ -83,7 +354,7 @@ export const DEFAULT_PARSER = {
  *
  * const formWithPersistence = useFormPersist(form, {
  *   key: "form-data",
- *   exclude?: ["password"],
+ *   exclude?: ["password"], // paths or patterns like "payments.*.cvv"
  *   include?: ["name", "email"], // if defined, only these values will be saved
  *   clearOnSubmit?: true, // by default true
  * });
@@ -92,116 +363,846 @@ export function useFormPersist<T extends FieldValues>(
   form: UseFormReturn<T>,
   options: useFormPersistOptions<T>
 ) {
+  const group = usePersistGroupContext();
+  const cookieStorage = useMemo(
+    () => (options.ssr ? createCookieStorage() : undefined),
+    [options.ssr]
+  );
   const {
-    key,
+    key: keyOption,
     clearOnSubmit = true,
-    storage = IS_BROWSER ? window.localStorage : undefined,
-    parser = DEFAULT_PARSER,
+    clearOn = clearOnSubmit ? ["submit"] : [],
+    keepSubmitted = false,
+    storage = group?.storage ??
+      cookieStorage ??
+      (isBrowser() ? window.localStorage : undefined),
+    debounceMs,
+    throttleMs,
+    syncTabs = false,
+    conflict = "last-write-wins",
+    onConflict,
+    restoreMode = "auto",
+    resolveField,
+    restoreOptions,
+    onRestore,
+    history = false,
+    finalStep = false,
+    redact = false,
     version = INITIAL_VERSION,
-    onVersionMismatch,
-    exclude,
-    include
+    ssr = false,
+    remote,
+    persistMeta = false,
+    schema,
+    revalidateOnRestore = false,
+    persistMode = "full"
   } = options;
 
-  const { serialize, deserialize } = parser;
-
-  const filterData = useCallback(
-    <T extends FieldValues>(
-      data: Partial<T>,
-      include?: Path<T>[],
-      exclude?: Path<T>[]
-    ): Partial<T> => {
-      if (include?.length) {
-        const picked = {} as T;
-        for (const p of include) {
-          const value = getIn(data, p as Path<Partial<T>>);
-          if (value !== undefined)
-            setIn(picked, p, value as PathValue<T, Path<T>>);
+  // Keys derived from the values are updated by the watch subscription
+  const deriveKeyRef = useRef<(values: T) => string>();
+  deriveKeyRef.current =
+    typeof keyOption === "function" ? keyOption : undefined;
+  const [derivedKey, setDerivedKey] = useState(() =>
+    deriveKeyRef.current?.(form.getValues())
+  );
+  const stepKey =
+    typeof keyOption === "function"
+      ? (derivedKey ?? keyOption(form.getValues()))
+      : keyOption;
+  const key = group ? group.stepKey(stepKey) : stepKey;
+
+  const isRestoringRef = useRef(true);
+  const persistRef = useRef<(values?: Partial<T>) => void>();
+  const scheduler = useMemo(
+    () =>
+      createScheduler(() => persistRef.current?.(), { debounceMs, throttleMs }),
+    [debounceMs, throttleMs]
+  );
+
+  // The persister reads the latest options on every call
+  const persisterOptions = { ...options, key, storage };
+  const [persister] = useState(() => createFormPersister(persisterOptions));
+
+  // The last submitted values are kept under their own key, apart from the draft
+  const submittedOptions = { ...persisterOptions, key: `${key}:submitted` };
+  const [submittedPersister] = useState(() =>
+    createFormPersister(submittedOptions)
+  );
+
+  // Named checkpoints are stored next to the draft, each in its own envelope
+  const [checkpoints] = useState(() => createCheckpointStore(persisterOptions));
+
+  // Options are applied once rendered, so renders React throws away change nothing
+  const activeKeyRef = useRef(key);
+  useIsomorphicLayoutEffect(() => {
+    if (activeKeyRef.current !== key) {
+      // Write the pending changes to the previous draft before switching keys
+      scheduler.flush();
+      activeKeyRef.current = key;
+      // Changes before the new draft is read back, e.g. resetting to the new record, are not saved
+      isRestoringRef.current = true;
+    }
+    persister.setOptions(persisterOptions);
+    submittedPersister.setOptions(submittedOptions);
+    checkpoints.setOptions(persisterOptions);
+  });
+  const [lastSubmitted, setLastSubmitted] = useState<Partial<T>>();
+
+  useEffect(() => registerPersister(key, persister), [key, persister]);
+  useEffect(() => {
+    if (keepSubmitted)
+      return registerPersister(`${key}:submitted`, submittedPersister);
+  }, [key, submittedPersister, keepSubmitted]);
+
+  const clearOnValidSubmit = clearOn.includes("submit");
+  const clearOnSubmitSuccess = clearOn.includes("submit-success");
+  const clearOnReset = clearOn.includes("reset");
+  const clearOnSubmitSuccessful = clearOn.includes("isSubmitSuccessful");
+  const clearOnUnmount = clearOn.includes("unmount");
+
+  useEffect(() => {
+    group?.register(stepKey).catch((err) => {
+      persister.warn("Failed to register step", err);
+    });
+  }, [group, stepKey, persister]);
+
+  // Inspect registered inputs so sensitive ones are redacted whatever their name
+  const redactEnabled = redact !== false;
+  const register = useCallback<UseFormRegister<T>>(
+    (name, registerOptions) => {
+      const field = form.register(name, registerOptions);
+      if (!redactEnabled) return field;
+
+      return {
+        ...field,
+        ref: (instance) => {
+          field.ref(instance);
+          if (isSensitiveElement(instance)) persister.markSensitive(name);
+        }
+      };
+    },
+    [form, persister, redactEnabled]
+  );
+
+  const [isRestored, setIsRestored] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [hasDraft, setHasDraft] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("idle");
+  const draftRef = useRef<VersionedData<T>>();
+  const localRef = useRef<VersionedData<T>>();
+  const syncRef = useRef<RemoteSync<T>>();
+  const isSyncingRef = useRef(false);
+  const isTraversingRef = useRef(false);
+
+  const historyEnabled = Boolean(history);
+  const { limit: historyLimit = 50, coalesceMs = 500 } =
+    typeof history === "object" ? history : {};
+  const historyRef = useRef(createHistory<Partial<T>>());
+  const [historyState, setHistoryState] = useState(historyRef.current);
+
+  const commitHistory = useCallback((next: HistoryState<Partial<T>>) => {
+    historyRef.current = next;
+    setHistoryState(next);
+  }, []);
+  const {
+    dirty: metaDirty = false,
+    touched: metaTouched = false,
+    errors: metaErrors = false,
+    focus: metaFocus = false
+  } = persistMeta === true ? ALL_META : persistMeta || {};
+  const metaRequested = metaDirty || metaTouched || metaErrors || metaFocus;
+  // `form.subscribe` was added in react-hook-form 7.55
+  const canSubscribe = typeof form.subscribe === "function";
+  const metaEnabled = metaRequested && canSubscribe;
+  const metaOptions = useMemo(
+    () => ({
+      dirty: metaDirty,
+      touched: metaTouched,
+      errors: metaErrors,
+      focus: metaFocus
+    }),
+    [metaDirty, metaTouched, metaErrors, metaFocus]
+  );
+  const savedMetaRef = useRef<string>();
+  // `form.formState` is a snapshot of the last render, this is kept up to date
+  const metaStateRef = useRef<MetaState<T>>();
+
+  const hasLocalChangesRef = useRef(false);
+  const channelRef = useRef<BroadcastChannel>();
+
+  useEffect(
+    () =>
+      persister.subscribe((event) => {
+        // Late writes of a previous key
+        if (event.key !== key) return;
+
+        if (event.type === "clear") {
+          localRef.current = undefined;
+          syncRef.current?.remove();
+          return;
         }
-        return picked;
+        if (event.type !== "save") return;
+
+        localRef.current = event.data;
+        syncRef.current?.push(event.data);
+        setLastSavedAt(event.data.savedAt ?? null);
+        channelRef.current?.postMessage({
+          key,
+          raw: event.raw
+        } as SyncMessage);
+      }),
+    [persister, key]
+  );
+
+  const dirtyOnly = persistMode === "dirty-only";
+
+  // Patches of "dirty-only" drafts are layered over the current default values,
+  // leaving out the fields that are not persisted
+  const expand = useCallback(
+    (data: Partial<T>) =>
+      dirtyOnly
+        ? layerValues(
+            persister.filter(
+              (form.formState.defaultValues ?? {}) as Partial<T>
+            ),
+            data
+          )
+        : data,
+    [form, persister, dirtyOnly]
+  );
+  const compact = useCallback(
+    (values: Partial<T>) =>
+      dirtyOnly
+        ? diffValues(values, form.formState.defaultValues as FieldValues)
+        : values,
+    [form, dirtyOnly]
+  );
+
+  const save = useCallback(
+    (values: Partial<T>) => {
+      const data = compact(values);
+      const meta = metaEnabled
+        ? captureMeta(
+            metaStateRef.current ?? form.formState,
+            metaOptions,
+            form.control._fields
+          )
+        : undefined;
+      savedMetaRef.current = JSON.stringify(meta);
+      if (!historyEnabled) return persister.save(data, { meta });
+
+      // History snapshots are stored as patches too
+      const { past, future } = historyRef.current;
+      return persister.save(data, {
+        history: { past: past.map(compact), future: future.map(compact) },
+        meta
+      });
+    },
+    [form, persister, compact, historyEnabled, metaEnabled, metaOptions]
+  );
+
+  const applyValues = useCallback(
+    (values: Partial<T>, resolve?: typeof resolveField) => {
+      const current = form.getValues();
+      const defaults = form.formState.defaultValues;
+      const { entries, skipped } = planRestore(current, values, defaults);
+
+      for (const path of skipped) {
+        persister.emit({
+          type: "restore:skip-field",
+          key,
+          path,
+          reason: "Unknown field"
+        });
+        persister.warn(`Skipping unknown field: ${path}`);
       }
-      if (exclude?.length) {
-        const pruned = structuredClone(data);
-        for (const p of exclude) deleteIn(pruned, p as Path<Partial<T>>);
-        return pruned;
+
+      for (const [path, storedValue] of entries) {
+        const currentValue = getIn(current, path as Path<T>);
+        const value = resolve
+          ? resolve(path as Path<T>, storedValue, currentValue)
+          : storedValue;
+        // Fields seeded on the server already hold the stored value
+        if ((resolve || ssr) && isEqual(value, currentValue)) continue;
+
+        form.setValue(path as Path<T>, value as PathValue<T, Path<T>>, {
+          shouldDirty: true,
+          shouldValidate: false,
+          ...restoreOptions
+        });
       }
-      return data;
     },
-    [include, exclude]
+    [form, persister, key, restoreOptions, ssr]
   );
 
-  const save = useCallback(
-    (data: Partial<T>) => {
+  const snapshot = useCallback(
+    () => persister.filter(form.getValues() as Partial<T>),
+    [form, persister]
+  );
+
+  persistRef.current = (values = snapshot()) => save(values);
+
+  const recordRef = useRef<() => void>();
+  recordRef.current = () => {
+    if (!historyEnabled || isTraversingRef.current) return;
+    commitHistory(
+      record(historyRef.current, snapshot(), {
+        limit: historyLimit,
+        coalesceMs,
+        now: Date.now()
+      })
+    );
+  };
+
+  const restoreData = useCallback(
+    (stored: VersionedData<T>) => {
+      const resolve =
+        restoreMode === "merge"
+          ? (resolveField ??
+            ((path: Path<T>, storedValue: unknown, currentValue: unknown) => {
+              const defaultValue = getIn(
+                (form.formState.defaultValues ?? {}) as FieldValues,
+                path
+              );
+              return isEqual(currentValue, defaultValue)
+                ? storedValue
+                : currentValue;
+            }))
+          : undefined;
+
+      isTraversingRef.current = true;
       try {
-        const versionedData: VersionedData<T> = { version, data };
-        storage?.setItem(key, serialize(versionedData));
-      } catch (err) {
-        console.warn("Failed to write", err);
+        applyValues(expand(stored.data), resolve);
+      } finally {
+        isTraversingRef.current = false;
       }
+
+      if (historyEnabled) {
+        const { past, future } = stored.history ?? {};
+        commitHistory(
+          createHistory(snapshot(), past?.map(expand), future?.map(expand))
+        );
+      }
+
+      if (metaEnabled && stored.meta)
+        applyMeta(form, stored.meta, metaOptions, persister.warn);
+
+      if (revalidateOnRestore)
+        form.trigger().catch((err: unknown) => {
+          persister.warn("Failed to validate restored values", err);
+        });
+
+      onRestore?.(stored.data);
+    },
+    [
+      persister,
+      revalidateOnRestore,
+      form,
+      expand,
+      applyValues,
+      snapshot,
+      historyEnabled,
+      commitHistory,
+      metaEnabled,
+      metaOptions,
+      restoreMode,
+      resolveField,
+      onRestore
+    ]
+  );
+
+  // Stored fields that fail the schema are dropped before restoring
+  const validateRef =
+    useRef<(stored: VersionedData<T>) => MaybePromise<VersionedData<T>>>();
+  validateRef.current = (stored: VersionedData<T>) => {
+    if (!schema) return stored;
+
+    const current = form.getValues();
+    const candidate = structuredClone(current);
+    const defaults = form.formState.defaultValues;
+    for (const [path, value] of planRestore(current, stored.data, defaults)
+      .entries)
+      setIn(candidate, path as Path<T>, value as PathValue<T, Path<T>>);
+
+    return attempt(
+      () =>
+        chain(findIssues(schema, candidate), (issues) => {
+          const { data, dropped } = dropInvalid(stored.data, issues);
+          for (const { path, message } of dropped) {
+            persister.emit({
+              type: "restore:skip-field",
+              key,
+              path,
+              reason: message
+            });
+            persister.warn(`Dropping invalid field: ${path} (${message})`);
+          }
+          return dropped.length ? { ...stored, data } : stored;
+        }),
+      // Restore nothing rather than unchecked values
+      (err) => {
+        persister.warn("Failed to validate stored data", err);
+        return { ...stored, data: {} };
+      }
+    );
+  };
+
+  const flush = useCallback(() => scheduler.flush(), [scheduler]);
+
+  const resetPersisted = useCallback(() => {
+    scheduler.cancel();
+    setLastSavedAt(null);
+    if (historyRef.current.past.length || historyRef.current.future.length)
+      commitHistory(createHistory(historyRef.current.present));
+    persister.clear();
+  }, [persister, scheduler, commitHistory]);
+
+  const resetPersistedRef = useRef(resetPersisted);
+  resetPersistedRef.current = resetPersisted;
+  const clearOnUnmountRef = useRef(clearOnUnmount);
+  clearOnUnmountRef.current = clearOnUnmount;
+
+  const unmountClearRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Runs before the pending write is flushed on unmount, so it is dropped instead.
+  // StrictMode unmounts and mounts again right away: the draft is only removed
+  // once the form did not come back.
+  useEffect(() => {
+    clearTimeout(unmountClearRef.current);
+    return () => {
+      if (!clearOnUnmountRef.current) return;
+      scheduler.cancel();
+      unmountClearRef.current = setTimeout(() => resetPersistedRef.current());
+    };
+  }, [scheduler]);
+
+  const isSubmitSuccessful =
+    clearOnSubmitSuccessful && form.formState.isSubmitSuccessful;
+  useEffect(() => {
+    if (isSubmitSuccessful) resetPersistedRef.current();
+  }, [isSubmitSuccessful]);
+
+  useEffect(() => {
+    if (!isBrowser() || !storage || !keepSubmitted) return;
+
+    let cancelled = false;
+    chain(submittedPersister.load(), (stored) => {
+      if (!cancelled) setLastSubmitted(stored?.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [submittedPersister, storage, keepSubmitted, key]);
+
+  const saveSubmitted = useCallback(
+    (values: Partial<T>) => {
+      const data = persister.filter(values);
+      setLastSubmitted(data);
+      return submittedPersister.save(data);
     },
-    [key, storage, serialize, version]
+    [persister, submittedPersister]
   );
 
+  const restoredKeyRef = useRef<string>();
+  const derivedKeyRef = useRef(derivedKey);
+  const lastValuesRef = useRef<Partial<T>>();
+  // Set when the values derived another key: they are kept, and saved when a field was edited
+  const derivedChangeRef = useRef<{ edited: boolean }>();
+
   useEffect(() => {
-    if (!IS_BROWSER || !storage) return;
+    let cancelled = false;
+    isRestoringRef.current = true;
 
-    const raw = storage.getItem(key);
-    if (!raw) return;
+    // Another record: start over with the draft of the new key, from the default
+    // values when the key came from outside the form, else from the edited values
+    const derivedChange = derivedChangeRef.current;
+    derivedChangeRef.current = undefined;
+    if (
+      restoredKeyRef.current !== undefined &&
+      restoredKeyRef.current !== key
+    ) {
+      scheduler.cancel();
+      draftRef.current = undefined;
+      localRef.current = undefined;
+      hasLocalChangesRef.current = false;
+      savedMetaRef.current = undefined;
+      lastValuesRef.current = undefined;
+      setHasDraft(false);
+      setLastSavedAt(null);
+      setIsRestored(false);
+      commitHistory(createHistory());
+      if (!derivedChange) form.reset();
+    }
+    restoredKeyRef.current = key;
+
+    const finish = () => {
+      if (cancelled) return;
+      isRestoringRef.current = false;
+      if (historyEnabled && historyRef.current.present === undefined)
+        commitHistory(createHistory(snapshot()));
+      setIsRestored(true);
+      if (derivedChange?.edited && !draftRef.current) {
+        hasLocalChangesRef.current = true;
+        scheduler.schedule();
+        lastValuesRef.current = snapshot();
+      }
+    };
+
+    if (!isBrowser() || !storage) {
+      finish();
+      return;
+    }
+
+    const apply = (stored: VersionedData<T> | undefined) => {
+      if (cancelled || !stored) return;
 
-    try {
-      const parsed = deserialize(raw);
+      localRef.current = stored;
+      if (stored.savedAt !== undefined) setLastSavedAt(stored.savedAt);
 
-      if (typeof parsed !== "object" || !("version" in parsed)) {
-        storage.removeItem(key);
+      if (restoreMode === "manual") {
+        draftRef.current = stored;
+        setHasDraft(true);
         return;
       }
 
-      if (parsed.version !== version) {
-        console.warn(
-          `Version mismatch: stored=${parsed.version}, current=${version}`
-        );
-        onVersionMismatch?.(parsed.version, version);
+      restoreData(stored);
+    };
+
+    persister.emit({ type: "restore:start", key });
+    // A throwing `onRestore` or `resolveField` must not leave the form restoring
+    const read = attempt(
+      () =>
+        chain(
+          chain(persister.load(), (stored) =>
+            stored ? validateRef.current!(stored) : undefined
+          ),
+          (stored) => {
+            apply(stored);
+            if (!cancelled)
+              persister.emit({ type: "restore:end", key, data: stored?.data });
+          }
+        ),
+      (err) => persister.warn("Failed to restore the draft", err)
+    );
+    chain(read, finish);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!isBrowser() || !storage) return;
+
+    const subscription = form.watch((values, { name }) => {
+      // Do not overwrite the stored draft before it has been read back,
+      // and do not echo back values received from another tab
+      if (isRestoringRef.current || isSyncingRef.current) return;
+
+      const deriveKey = deriveKeyRef.current;
+      const nextKey = deriveKey?.(values as T);
+      if (nextKey !== undefined && nextKey !== derivedKeyRef.current) {
+        // The values already belong to the new key, the pending changes
+        // are written to the previous draft as they were
+        if (scheduler.isPending()) {
+          scheduler.cancel();
+          if (lastValuesRef.current)
+            persistRef.current?.(lastValuesRef.current);
+        }
+        derivedKeyRef.current = nextKey;
+        // A field was edited, rather than the whole form reset
+        derivedChangeRef.current = { edited: name !== undefined };
+        setDerivedKey(nextKey);
         return;
       }
 
-      const values = parsed.data;
+      // Do not overwrite a draft waiting for the user to decide on it
+      if (draftRef.current) return;
+      hasLocalChangesRef.current = true;
+      recordRef.current?.();
+      scheduler.schedule();
+      if (deriveKey) lastValuesRef.current = snapshot();
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      scheduler.flush();
+    };
+  }, [form, storage, scheduler, snapshot]);
+
+  useEffect(() => {
+    if (metaRequested && !canSubscribe)
+      persister.warn(
+        "persistMeta needs react-hook-form 7.55 or later, form state is not persisted"
+      );
+  }, [persister, metaRequested, canSubscribe]);
+
+  useEffect(() => {
+    if (!isBrowser() || !storage || !metaEnabled) return;
+
+    // Touched flags, errors and focus change without changing values
+    const onMetaChange = () => {
+      if (isRestoringRef.current || isSyncingRef.current || draftRef.current)
+        return;
+      const state = metaStateRef.current ?? form.formState;
+      const meta = JSON.stringify(
+        captureMeta(state, metaOptions, form.control._fields)
+      );
+      if (meta !== savedMetaRef.current) scheduler.schedule();
+    };
+
+    const onFocusOut = (event: FocusEvent) => {
+      // Moving to another field is handled by its focusin
+      if (!event.relatedTarget) onMetaChange();
+    };
+
+    const unsubscribe = form.subscribe({
+      formState: { dirtyFields: true, touchedFields: true, errors: true },
+      callback: ({ dirtyFields, touchedFields, errors }) => {
+        metaStateRef.current = { dirtyFields, touchedFields, errors };
+        onMetaChange();
+      }
+    });
+    document.addEventListener("focusin", onMetaChange);
+    document.addEventListener("focusout", onFocusOut);
+
+    return () => {
+      unsubscribe();
+      document.removeEventListener("focusin", onMetaChange);
+      document.removeEventListener("focusout", onFocusOut);
+    };
+  }, [form, storage, scheduler, metaEnabled, metaOptions]);
+
+  const remoteRef = useRef(remote);
+  remoteRef.current = remote;
+  const remoteEnabled = Boolean(remote);
+
+  const reconcileRef = useRef<(pulled?: VersionedData<T>) => void>();
+  reconcileRef.current = (pulled?: VersionedData<T>) => {
+    scheduler.flush();
+    const local = localRef.current;
+
+    if (!isNewerDraft(pulled, local, version)) {
+      if (local) syncRef.current?.push(local);
+      return;
+    }
+
+    if (restoreMode === "manual") {
+      draftRef.current = pulled;
+      setHasDraft(true);
+    } else {
+      isSyncingRef.current = true;
+      try {
+        restoreData(pulled);
+      } finally {
+        isSyncingRef.current = false;
+      }
+    }
+
+    // Cache the remote draft locally, keeping its save time
+    persister.save(pulled.data, {
+      savedAt: pulled.savedAt,
+      history: pulled.history,
+      meta: pulled.meta
+    });
+  };
+
+  useEffect(() => {
+    if (!remoteEnabled || !isRestored) return;
+
+    // Reads the latest adapter, so it may be created inline
+    const sync = createRemoteSync<T>(
+      {
+        pull: (remoteKey) => remoteRef.current!.pull(remoteKey),
+        push: (remoteKey, envelope) =>
+          remoteRef.current!.push(remoteKey, envelope),
+        remove: (remoteKey) => remoteRef.current?.remove?.(remoteKey)
+      },
+      {
+        key,
+        onStatus: setSyncStatus,
+        onError: (error, message) => persister.report("sync", error, message)
+      }
+    );
+    syncRef.current = sync;
+
+    let cancelled = false;
+    sync
+      .pull()
+      .then((pulled) => pulled && validateRef.current!(pulled))
+      .then((pulled) => {
+        if (!cancelled) reconcileRef.current?.(pulled);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled)
+          persister.report("sync", err, "Failed to apply the remote draft");
+      });
+
+    return () => {
+      cancelled = true;
+      sync.dispose();
+      syncRef.current = undefined;
+    };
+  }, [remoteEnabled, isRestored, key]);
 
-      const currentFormData = form.getValues();
-      const validFieldNames = new Set(Object.keys(currentFormData));
+  const receiveRef = useRef<(raw: string | null) => void>();
+  receiveRef.current = (raw: string | null) => {
+    if (!raw || isRestoringRef.current) return;
 
-      for (const [fieldName, fieldValue] of Object.entries(values)) {
-        if (!validFieldNames.has(fieldName)) {
-          console.warn(`Skipping unknown field: ${fieldName}`);
-          continue;
+    const apply = (parsed: VersionedData<T> | undefined) => {
+      if (typeof parsed !== "object" || parsed.version !== version) return;
+
+      let values = expand(parsed.data);
+      let resolved = false;
+
+      if (hasLocalChangesRef.current) {
+        if (onConflict) {
+          const local = form.getValues() as Partial<T>;
+          values = onConflict(persister.filter(local), values);
+          resolved = true;
+        } else if (conflict === "keep-local") {
+          // Write the local values back over the other tab's,
+          // which settles the conflict until the next edit
+          scheduler.cancel();
+          persistRef.current?.();
+          hasLocalChangesRef.current = false;
+          return;
         }
-        form.setValue(
-          fieldName as Path<T>,
-          fieldValue as PathValue<T, Path<T>>,
-          {
-            shouldDirty: true,
-            shouldValidate: false
-          }
-        );
       }
-    } catch (err) {
-      console.warn("Failed to parse stored data", err);
-      storage.removeItem(key);
+
+      scheduler.cancel();
+      isSyncingRef.current = true;
+      try {
+        applyValues(values);
+      } finally {
+        isSyncingRef.current = false;
+      }
+      hasLocalChangesRef.current = false;
+      if (parsed.savedAt !== undefined) setLastSavedAt(parsed.savedAt);
+
+      if (resolved) persistRef.current?.();
+    };
+
+    // Values from other tabs are checked against the schema like restored ones
+    chain(
+      chain(persister.parse(raw), (parsed) =>
+        typeof parsed === "object" && parsed.version === version
+          ? validateRef.current!(parsed)
+          : undefined
+      ),
+      apply
+    );
+  };
+
+  useEffect(() => {
+    if (!isBrowser() || !storage || !syncTabs) return;
+
+    const receive = (raw: string | null) => receiveRef.current?.(raw);
+
+    const onStorage = (event: StorageEvent) => {
+      if (event.storageArea === storage && event.key === key)
+        receive(event.newValue);
+    };
+
+    const isWebStorage =
+      typeof Storage !== "undefined" && storage instanceof Storage;
+
+    if (isWebStorage) {
+      window.addEventListener("storage", onStorage);
+    } else if (typeof BroadcastChannel !== "undefined") {
+      const channel = new BroadcastChannel(SYNC_CHANNEL);
+      channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+        if (event.data?.key === key) receive(event.data.raw);
+      };
+      channelRef.current = channel;
     }
-  }, []);
+
+    return () => {
+      window.removeEventListener("storage", onStorage);
+      channelRef.current?.close();
+      channelRef.current = undefined;
+    };
+  }, [storage, key, syncTabs]);
 
   useEffect(() => {
-    if (!IS_BROWSER || !storage) return;
+    if (!isBrowser()) return;
 
-    const subscription = form.watch((values) => {
-      save(filterData(values as Partial<T>, include, exclude));
-    });
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") scheduler.flush();
+    };
 
-    return () => subscription.unsubscribe();
-  }, [form, save, storage, include, exclude]);
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onVisibilityChange);
 
-  const resetPersisted = useCallback(() => {
-    storage?.removeItem(key);
-  }, [key, storage]);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [scheduler, flush]);
+
+  const restoreDraft = useCallback(() => {
+    const draft = draftRef.current;
+    if (!draft) return;
+
+    draftRef.current = undefined;
+    setHasDraft(false);
+    restoreData(draft);
+  }, [restoreData]);
+
+  const discardDraft = useCallback(() => {
+    if (!draftRef.current) return;
+
+    draftRef.current = undefined;
+    setHasDraft(false);
+    resetPersisted();
+  }, [resetPersisted]);
+
+  const saveCheckpoint = useCallback(
+    (name: string) => checkpoints.save(name, snapshot()),
+    [checkpoints, snapshot]
+  );
+
+  const listCheckpoints = useCallback(() => checkpoints.list(), [checkpoints]);
+
+  // Replaces the values of the form, and so the draft, like any other change
+  const restoreCheckpoint = useCallback(
+    (name: string): MaybePromise<boolean> =>
+      chain(checkpoints.load(name), (stored) => {
+        if (!stored) return false;
+
+        return chain(validateRef.current!(stored), ({ data }) => {
+          draftRef.current = undefined;
+          setHasDraft(false);
+          applyValues(data);
+          return true;
+        });
+      }),
+    [checkpoints, applyValues]
+  );
+
+  const deleteCheckpoint = useCallback(
+    (name: string) => checkpoints.remove(name),
+    [checkpoints]
+  );
+
+  const traverse = useCallback(
+    (step: typeof undoHistory) => {
+      const next = step(historyRef.current);
+      if (next === historyRef.current || !next.present) return;
+
+      commitHistory(next);
+      isTraversingRef.current = true;
+      try {
+        applyValues(next.present);
+      } finally {
+        isTraversingRef.current = false;
+      }
+    },
+    [applyValues, commitHistory]
+  );
+
+  const undo = useCallback(() => traverse(undoHistory), [traverse]);
+  const redo = useCallback(() => traverse(redoHistory), [traverse]);
 
   const originalHandleSubmit = form.handleSubmit;
   const handleSubmit = useCallback(
@@ -210,22 +1211,90 @@ export function useFormPersist<T extends FieldValues>(
       onInvalid?: Parameters<typeof originalHandleSubmit>[1]
     ) => {
       return originalHandleSubmit((...validArgs) => {
-        if (clearOnSubmit) {
+        if (clearOnValidSubmit) {
           resetPersisted();
         }
 
-        return onValid?.(...validArgs);
+        const result = onValid?.(...validArgs);
+
+        // A throwing or rejected `onValid` skips this, so the draft is kept
+        return chain(result, (value) => {
+          if (clearOnSubmitSuccess) resetPersisted();
+          if (keepSubmitted) saveSubmitted(validArgs[0] as Partial<T>);
+          if (!group || !finalStep) return value;
+
+          return chain(group.clearAll(), () => value);
+        });
       }, onInvalid);
     },
-    [originalHandleSubmit, clearOnSubmit, resetPersisted]
+    [
+      originalHandleSubmit,
+      clearOnValidSubmit,
+      clearOnSubmitSuccess,
+      keepSubmitted,
+      resetPersisted,
+      saveSubmitted,
+      group,
+      finalStep
+    ]
+  );
+
+  const originalReset = form.reset;
+  const reset = useCallback<UseFormReset<T>>(
+    (values, keepStateOptions) => {
+      originalReset(values, keepStateOptions);
+      if (clearOnReset) resetPersisted();
+    },
+    [originalReset, clearOnReset, resetPersisted]
   );
 
   return useMemo(
     () => ({
       ...form,
+      register,
       handleSubmit,
-      resetPersisted
+      reset,
+      resetPersisted,
+      flush,
+      isRestoring: !isRestored,
+      isRestored,
+      lastSavedAt,
+      hasDraft,
+      syncStatus,
+      lastSubmitted,
+      restoreDraft,
+      discardDraft,
+      saveCheckpoint,
+      listCheckpoints,
+      restoreCheckpoint,
+      deleteCheckpoint,
+      undo,
+      redo,
+      canUndo: historyState.past.length > 0,
+      canRedo: historyState.future.length > 0,
+      history: historyState
     }),
-    [form, handleSubmit, resetPersisted]
+    [
+      form,
+      register,
+      handleSubmit,
+      reset,
+      resetPersisted,
+      flush,
+      isRestored,
+      lastSavedAt,
+      hasDraft,
+      syncStatus,
+      lastSubmitted,
+      restoreDraft,
+      discardDraft,
+      saveCheckpoint,
+      listCheckpoints,
+      restoreCheckpoint,
+      deleteCheckpoint,
+      undo,
+      redo,
+      historyState
+    ]
   );
 }
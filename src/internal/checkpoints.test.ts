@@ -0,0 +1,121 @@
+// @vitest-environment node
+import {
+  checkpointIndexKey,
+  checkpointKey,
+  createCheckpointStore
+} from "./checkpoints";
+import { PersistStorage } from "../storage/types";
+import { MemoryStorage } from "../testing";
+
+interface Values {
+  name: string;
+}
+
+describe("createCheckpointStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("saves, lists, loads and removes checkpoints", () => {
+    vi.useFakeTimers({ now: 1000 });
+    const storage = new MemoryStorage();
+    const store = createCheckpointStore<Values>({
+      key: "application",
+      storage
+    });
+
+    store.save("first", { name: "Alice" });
+    vi.setSystemTime(2000);
+    store.save("second", { name: "Bob" });
+
+    expect(store.list()).toEqual([
+      { name: "first", savedAt: 1000 },
+      { name: "second", savedAt: 2000 }
+    ]);
+    expect(store.load("first")).toEqual({
+      version: "1",
+      data: { name: "Alice" },
+      savedAt: 1000
+    });
+    expect(
+      JSON.parse(storage.getItem(checkpointKey("application", "second"))!)
+    ).toEqual({ version: "1", data: { name: "Bob" }, savedAt: 2000 });
+
+    store.remove("first");
+    expect(store.list()).toEqual([{ name: "second", savedAt: 2000 }]);
+    expect(store.load("first")).toBeUndefined();
+    expect(storage.getItem(checkpointKey("application", "first"))).toBeNull();
+
+    store.remove("second");
+    expect(storage.length).toBe(0);
+  });
+
+  test("replaces checkpoints of the same name and drops the oldest", () => {
+    vi.useFakeTimers({ now: 1000 });
+    const storage = new MemoryStorage();
+    const store = createCheckpointStore<Values>({
+      key: "application",
+      storage,
+      maxCheckpoints: 2
+    });
+
+    store.save("a", { name: "1" });
+    vi.setSystemTime(2000);
+    store.save("b", { name: "2" });
+    vi.setSystemTime(3000);
+    store.save("a", { name: "3" });
+    vi.setSystemTime(4000);
+    store.save("c", { name: "4" });
+
+    expect(store.list()).toEqual([
+      { name: "a", savedAt: 3000 },
+      { name: "c", savedAt: 4000 }
+    ]);
+    expect(storage.getItem(checkpointKey("application", "b"))).toBeNull();
+    expect(store.load("a")).toMatchObject({ data: { name: "3" } });
+  });
+
+  test("applies version checks and migrations", () => {
+    const storage = new MemoryStorage();
+    const store = createCheckpointStore<Values>({
+      key: "application",
+      storage
+    });
+    store.save("old", { name: "Alice" });
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    store.setOptions({ key: "application", storage, version: "2" });
+    expect(store.load("old")).toBeUndefined();
+    warn.mockRestore();
+
+    store.setOptions({
+      key: "application",
+      storage,
+      version: "2",
+      migrations: { "1->2": ({ name }) => ({ name: `${name} (v2)` }) }
+    });
+    expect(store.load("old")).toMatchObject({ data: { name: "Alice (v2)" } });
+  });
+
+  test("does not list checkpoints that failed to save", async () => {
+    const storage: PersistStorage = {
+      getItem: async () => null,
+      setItem: async () => {
+        throw new Error("Disk full");
+      },
+      removeItem: async () => undefined
+    };
+    const onError = vi.fn();
+    const store = createCheckpointStore<Values>({
+      key: "application",
+      storage,
+      onError
+    });
+
+    await store.save("first", { name: "Alice" });
+
+    expect(onError).toHaveBeenCalledWith("write", expect.any(Error));
+    expect(await store.list()).toEqual([]);
+    expect(checkpointIndexKey("application")).toBe("application:checkpoints");
+  });
+});
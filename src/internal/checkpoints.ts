@@ -0,0 +1,157 @@
+import { FieldValues } from "react-hook-form";
+import { createFormPersister, FormPersisterOptions } from "../core";
+import { attempt, chain, MaybePromise } from "./maybe-promise";
+import { VersionedData } from "../parsers/types";
+
+/**
+ * A named snapshot of the form, saved with `saveCheckpoint`.
+ */
+export interface Checkpoint {
+  name: string;
+  /** When the checkpoint was saved, in milliseconds since the epoch. */
+  savedAt: number;
+}
+
+/**
+ * Options for `createCheckpointStore`, the options of the form's persister.
+ */
+export interface CheckpointStoreOptions<
+  T extends FieldValues
+> extends FormPersisterOptions<T> {
+  /** The number of checkpoints to keep, the oldest are deleted first. Defaults to 10. */
+  maxCheckpoints?: number;
+}
+
+export interface CheckpointStore<T extends FieldValues> {
+  /** Save the values under a name, replacing the checkpoint of the same name. */
+  save(name: string, values: Partial<T>): MaybePromise<void>;
+  /** List the checkpoints, oldest first. */
+  list(): MaybePromise<Checkpoint[]>;
+  /** Read a checkpoint, migrated like drafts. `undefined` when it is missing or unusable. */
+  load(name: string): MaybePromise<VersionedData<T> | undefined>;
+  /** Delete a checkpoint. */
+  remove(name: string): MaybePromise<void>;
+  /** Replace the options, e.g. with the latest ones on every render. */
+  setOptions(options: CheckpointStoreOptions<T>): void;
+}
+
+/**
+ * Where the checkpoints of a draft are listed
+ */
+export const checkpointIndexKey = (key: string) => `${key}:checkpoints`;
+
+/**
+ * Where a checkpoint is stored, as a draft of its own
+ */
+export const checkpointKey = (key: string, name: string) =>
+  `${key}:checkpoint:${name}`;
+
+const isCheckpoint = (value: unknown): value is Checkpoint =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Checkpoint).name === "string" &&
+  typeof (value as Checkpoint).savedAt === "number";
+
+/**
+ * Create a store for the named checkpoints of a draft. Each checkpoint is
+ * written with its own persister, so it goes through the parser and version
+ * checks like the draft, and the names are listed in a plain index next to it.
+ */
+export function createCheckpointStore<T extends FieldValues>(
+  options: CheckpointStoreOptions<T>
+): CheckpointStore<T> {
+  let current = options;
+
+  const resolveStorage = () =>
+    current.storage ??
+    (typeof window !== "undefined" ? window.localStorage : undefined);
+
+  const persister = (name: string) =>
+    createFormPersister<T>({
+      ...current,
+      key: checkpointKey(current.key, name)
+    });
+
+  const readIndex = (): MaybePromise<Checkpoint[]> => {
+    const storage = resolveStorage();
+    if (!storage) return [];
+
+    return attempt(
+      () =>
+        chain(storage.getItem(checkpointIndexKey(current.key)), (raw) => {
+          const parsed: unknown = raw ? JSON.parse(raw) : [];
+          return Array.isArray(parsed) ? parsed.filter(isCheckpoint) : [];
+        }),
+      () => []
+    );
+  };
+
+  const writeIndex = (index: Checkpoint[]) => {
+    const storage = resolveStorage();
+    if (!storage) return;
+
+    const key = checkpointIndexKey(current.key);
+    return index.length
+      ? storage.setItem(key, JSON.stringify(index))
+      : storage.removeItem(key);
+  };
+
+  // One at a time, so the index is never written by two calls at once
+  const removeAll = (names: string[]): MaybePromise<void> =>
+    names.reduce<MaybePromise<void>>(
+      (previous, name) => chain(previous, () => persister(name).clear()),
+      undefined
+    );
+
+  return {
+    save: (name, values) => {
+      const savedAt = Date.now();
+      const { maxCheckpoints = 10 } = current;
+
+      // Failed writes are reported by the persister and not listed
+      let saved = false;
+      const checkpoint = persister(name);
+      checkpoint.subscribe((event) => {
+        if (event.type === "save") saved = true;
+      });
+
+      return chain(checkpoint.save(values, { savedAt }), () => {
+        if (!saved) return;
+
+        return chain(readIndex(), (index) => {
+          const next = [
+            ...index.filter((entry) => entry.name !== name),
+            { name, savedAt }
+          ];
+          const dropped = next.splice(
+            0,
+            Math.max(0, next.length - maxCheckpoints)
+          );
+          return chain(removeAll(dropped.map((entry) => entry.name)), () =>
+            writeIndex(next)
+          );
+        });
+      });
+    },
+
+    list: readIndex,
+
+    load: (name) =>
+      chain(readIndex(), (index) =>
+        index.some((entry) => entry.name === name)
+          ? persister(name).load()
+          : undefined
+      ),
+
+    remove: (name) =>
+      chain(readIndex(), (index) =>
+        chain(persister(name).clear(), () =>
+          writeIndex(index.filter((entry) => entry.name !== name))
+        )
+      ),
+
+    setOptions: (next) => {
+      current = next;
+    }
+  };
+}
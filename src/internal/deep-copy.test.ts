@@ -1,4 +1,4 @@
-import { deleteIn, getIn, setIn } from "./deep-copy";
+import { deleteIn, getIn, hasIn, omitIn, pickIn, setIn } from "./deep-copy";
 import type { Path } from "react-hook-form";
 
 interface Sample {
@@ -33,6 +33,18 @@ describe("deep-copy helpers", () => {
     expect(getIn(data, missingPath)).toBeUndefined();
   });
 
+  test("hasIn: checks nested paths including undefined values", () => {
+    const data = {
+      user: { name: "John", address: undefined, tags: ["a"] }
+    } as unknown as Sample;
+
+    expect(hasIn(data, "user.name")).toBe(true);
+    expect(hasIn(data, "user.address")).toBe(true);
+    expect(hasIn(data, "user.tags.0")).toBe(true);
+    expect(hasIn(data, "user.tags.1")).toBe(false);
+    expect(hasIn(data, "user.address.city")).toBe(false);
+  });
+
   test("setIn: sets nested values and creates containers as needed", () => {
     const data = { user: { name: "Jane" } } as unknown as Sample;
 
@@ -67,4 +79,29 @@ describe("deep-copy helpers", () => {
     deleteIn(data, "user.contacts.0.type");
     expect(getIn(data, "user.contacts.0.type")).toBeUndefined();
   });
+
+  test("pickIn / omitIn: copy values by path or pattern", () => {
+    const data: Sample = {
+      user: {
+        name: "John",
+        address: { city: "LA", zip: "90001" },
+        contacts: [
+          { type: "email", value: "john@example.com" },
+          { type: "phone", value: "123" }
+        ]
+      }
+    };
+
+    expect(pickIn(data, ["user.contacts.*.type", "user.address"])).toEqual({
+      user: {
+        address: { city: "LA", zip: "90001" },
+        contacts: [{ type: "email" }, { type: "phone" }]
+      }
+    });
+
+    const pruned = omitIn(data, ["user.contacts.[1].value", "**.zip"]);
+    expect(pruned.user.address).toEqual({ city: "LA" });
+    expect(pruned.user.contacts?.[1]).toEqual({ type: "phone" });
+    expect(data.user.address?.zip).toBe("90001");
+  });
 });
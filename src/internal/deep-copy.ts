@@ -1,4 +1,5 @@
 import { FieldValues, Path, PathValue } from "react-hook-form";
+import { expandPattern } from "./path-pattern";
 
 const splitPath = (p: string) => p.split(".");
 const isIndex = (s: string) => String(+s) === s;
@@ -21,6 +22,22 @@ export function getIn<T extends FieldValues, P extends Path<T>>(
   return current as PathValue<T, P> | undefined;
 }
 
+/**
+ * Check whether a nested path exists, even when its value is undefined
+ */
+export function hasIn<T extends FieldValues>(obj: T, path: Path<T>): boolean {
+  const segments = splitPath(path);
+  const last = segments.pop()!;
+  const parent: unknown = segments.length
+    ? getIn(obj, segments.join(".") as Path<T>)
+    : obj;
+
+  if (parent == null || typeof parent !== "object") return false;
+  return Array.isArray(parent)
+    ? isIndex(last) && +last < parent.length
+    : last in parent;
+}
+
 /**
  * Set a nested value by path
  */
@@ -126,3 +143,46 @@ export function deleteIn<T extends FieldValues, P extends Path<T>>(
   }
   return deleteNode(obj, 0);
 }
+
+/**
+ * Copy the values at the given paths or patterns into a new object
+ */
+export function pickIn<T extends FieldValues>(
+  obj: T,
+  patterns: readonly string[]
+): Partial<T> {
+  const picked = {} as T;
+  const paths = patterns
+    .flatMap((pattern) => expandPattern(obj, pattern))
+    .sort((a, b) => splitPath(a).length - splitPath(b).length);
+  const taken: string[] = [];
+
+  for (const path of paths) {
+    // A picked parent already holds the value
+    if (
+      taken.some((parent) => path === parent || path.startsWith(`${parent}.`))
+    )
+      continue;
+
+    const value = getIn(obj, path as Path<T>);
+    if (value === undefined) continue;
+
+    setIn(picked, path as Path<T>, value);
+    taken.push(path);
+  }
+  return picked;
+}
+
+/**
+ * Copy an object without the values at the given paths or patterns
+ */
+export function omitIn<T extends FieldValues>(
+  obj: T,
+  patterns: readonly string[]
+): T {
+  const pruned = structuredClone(obj);
+  const paths = patterns.flatMap((pattern) => expandPattern(pruned, pattern));
+
+  for (const path of paths) deleteIn(pruned, path as Path<T>);
+  return pruned;
+}
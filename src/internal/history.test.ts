@@ -0,0 +1,53 @@
+import { createHistory, record, redo, undo } from "./history";
+
+const options = { limit: 3, coalesceMs: 500 };
+
+describe("history", () => {
+  test("record: pushes the previous snapshot and clears the redo stack", () => {
+    let state = createHistory({ name: "" });
+    state = record(state, { name: "a" }, { ...options, now: 1000 });
+    state = record(state, { name: "ab" }, { ...options, now: 2000 });
+
+    expect(state.past).toEqual([{ name: "" }, { name: "a" }]);
+    expect(state.present).toEqual({ name: "ab" });
+
+    state = undo(state);
+    state = record(state, { name: "ac" }, { ...options, now: 3000 });
+
+    expect(state.past).toEqual([{ name: "" }, { name: "a" }]);
+    expect(state.future).toEqual([]);
+  });
+
+  test("record: coalesces rapid changes into one step", () => {
+    let state = createHistory({ name: "" });
+    state = record(state, { name: "a" }, { ...options, now: 1000 });
+    state = record(state, { name: "ab" }, { ...options, now: 1100 });
+    state = record(state, { name: "abc" }, { ...options, now: 1200 });
+
+    expect(state.past).toEqual([{ name: "" }]);
+    expect(state.present).toEqual({ name: "abc" });
+  });
+
+  test("record: ignores unchanged snapshots and keeps at most limit steps", () => {
+    let state = createHistory({ step: 0 });
+    for (let step = 1; step <= 5; step++) {
+      state = record(state, { step }, { ...options, now: step * 1000 });
+      state = record(state, { step }, { ...options, now: step * 1000 + 1 });
+    }
+
+    expect(state.past).toEqual([{ step: 2 }, { step: 3 }, { step: 4 }]);
+  });
+
+  test("undo and redo move between snapshots", () => {
+    let state = createHistory({ name: "" });
+    state = record(state, { name: "a" }, { ...options, now: 1000 });
+
+    state = undo(state);
+    expect(state.present).toEqual({ name: "" });
+    expect(undo(state)).toBe(state);
+
+    state = redo(state);
+    expect(state.present).toEqual({ name: "a" });
+    expect(redo(state)).toBe(state);
+  });
+});
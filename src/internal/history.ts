@@ -0,0 +1,76 @@
+import { isEqual } from "./merge";
+
+/**
+ * Snapshots before and after the present one, oldest first.
+ */
+export interface HistoryState<S> {
+  past: S[];
+  present?: S;
+  future: S[];
+  /** When the present snapshot was last recorded, 0 after undo or redo. */
+  recordedAt: number;
+}
+
+export interface RecordOptions {
+  /** The maximum number of past snapshots to keep. */
+  limit: number;
+  /** Changes within this many milliseconds of the last one are merged into one step. */
+  coalesceMs: number;
+  now: number;
+}
+
+export function createHistory<S>(
+  present?: S,
+  past: S[] = [],
+  future: S[] = []
+): HistoryState<S> {
+  return { past, present, future, recordedAt: 0 };
+}
+
+/**
+ * Record a new snapshot, dropping the redo stack
+ */
+export function record<S>(
+  state: HistoryState<S>,
+  snapshot: S,
+  { limit, coalesceMs, now }: RecordOptions
+): HistoryState<S> {
+  if (state.present === undefined)
+    return { ...state, present: snapshot, recordedAt: now };
+  if (isEqual(state.present, snapshot)) return state;
+
+  const coalesce = state.recordedAt > 0 && now - state.recordedAt < coalesceMs;
+  const past = coalesce
+    ? state.past
+    : [...state.past, state.present].slice(-limit);
+
+  return { past, present: snapshot, future: [], recordedAt: now };
+}
+
+/**
+ * Step back to the previous snapshot
+ */
+export function undo<S>(state: HistoryState<S>): HistoryState<S> {
+  if (!state.past.length || state.present === undefined) return state;
+
+  return {
+    past: state.past.slice(0, -1),
+    present: state.past[state.past.length - 1],
+    future: [state.present, ...state.future],
+    recordedAt: 0
+  };
+}
+
+/**
+ * Step forward to the next snapshot
+ */
+export function redo<S>(state: HistoryState<S>): HistoryState<S> {
+  if (!state.future.length || state.present === undefined) return state;
+
+  return {
+    past: [...state.past, state.present],
+    present: state.future[0],
+    future: state.future.slice(1),
+    recordedAt: 0
+  };
+}
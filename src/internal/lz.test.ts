@@ -0,0 +1,46 @@
+import { compress, decompress } from "./lz";
+
+describe("lz", () => {
+  test("round-trips text, including wide and astral characters", () => {
+    for (const input of [
+      "",
+      "a",
+      "aaaaaaaaaaaaaaaa",
+      "abababababababab",
+      "Привіт, світ! 👋 こんにちは",
+      JSON.stringify({
+        version: "1",
+        data: { name: "Alice", tags: ["a", "b"] }
+      })
+    ])
+      expect(decompress(compress(input))).toBe(input);
+  });
+
+  test("shrinks repetitive data", () => {
+    const input = JSON.stringify({
+      items: Array.from({ length: 200 }, (_, i) => ({
+        name: `item ${i}`,
+        done: false
+      }))
+    });
+    const compressed = compress(input);
+
+    expect(compressed.length).toBeLessThan(input.length / 3);
+    expect(decompress(compressed)).toBe(input);
+  });
+
+  test("only produces printable, non-surrogate characters", () => {
+    const compressed = compress("The quick brown fox jumps over the lazy dog");
+
+    for (const char of compressed.split("")) {
+      const code = char.charCodeAt(0);
+      expect(code).toBeGreaterThanOrEqual(32);
+      expect(code < 0xd800 || code > 0xdfff).toBe(true);
+    }
+  });
+
+  test("rejects truncated input", () => {
+    const compressed = compress("hello hello hello");
+    expect(() => decompress(compressed.slice(0, 1))).toThrow();
+  });
+});
@@ -0,0 +1,124 @@
+// LZW over UTF-16 code units, packed into 15 bits per character so the
+// output only holds printable, non-surrogate characters (as lz-string does).
+
+const LITERAL_8 = 0;
+const LITERAL_16 = 1;
+const END = 2;
+const FIRST_CODE = 3;
+
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+// Every token adds at most two entries, so the largest code after
+// `tokens` tokens fits in this many bits
+const widthFor = (tokens: number) =>
+  32 - Math.clz32(FIRST_CODE - 1 + 2 * tokens);
+
+/**
+ * Compress a string into a shorter string that is safe to store anywhere
+ */
+export function compress(input: string): string {
+  const out: string[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  const write = (value: number, width: number) => {
+    for (let i = 0; i < width; i++) {
+      buffer |= ((value >> i) & 1) << bits;
+      if (++bits === BITS_PER_CHAR) {
+        out.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+        bits = 0;
+      }
+    }
+  };
+
+  const dict = new Map<string, number>();
+  let next = FIRST_CODE;
+  let tokens = 0;
+
+  const emit = (phrase: string) => {
+    const width = widthFor(tokens++);
+    const code = dict.get(phrase);
+    if (code !== undefined) return write(code, width);
+
+    // A character seen for the first time is written as is
+    const char = phrase.charCodeAt(0);
+    const wide = char > 0xff;
+    write(wide ? LITERAL_16 : LITERAL_8, width);
+    write(char, wide ? 16 : 8);
+    dict.set(phrase, next++);
+  };
+
+  let phrase = "";
+  // Iterate code units, not code points
+  for (const char of input.split("")) {
+    const extended = phrase + char;
+
+    if (!phrase || dict.has(extended)) {
+      phrase = extended;
+    } else {
+      emit(phrase);
+      dict.set(extended, next++);
+      phrase = char;
+    }
+  }
+  if (phrase) emit(phrase);
+
+  write(END, widthFor(tokens));
+  if (bits) out.push(String.fromCharCode(buffer + CHAR_OFFSET));
+  return out.join("");
+}
+
+/**
+ * Restore a string produced by `compress`
+ */
+export function decompress(input: string): string {
+  let index = 0;
+  let buffer = 0;
+  let bits = 0;
+
+  const read = (width: number) => {
+    let value = 0;
+    for (let i = 0; i < width; i++) {
+      if (!bits) {
+        if (index >= input.length) throw new Error("Unexpected end of input");
+        buffer = input.charCodeAt(index++) - CHAR_OFFSET;
+        bits = BITS_PER_CHAR;
+      }
+      value |= (buffer & 1) << i;
+      buffer >>= 1;
+      bits--;
+    }
+    return value;
+  };
+
+  const entries: string[] = [];
+  const out: string[] = [];
+  let previous: string | undefined;
+
+  for (let tokens = 0; ; tokens++) {
+    const code = read(widthFor(tokens));
+    if (code === END) break;
+
+    let phrase: string;
+    if (code === LITERAL_8 || code === LITERAL_16) {
+      phrase = String.fromCharCode(read(code === LITERAL_16 ? 16 : 8));
+    } else if (code - FIRST_CODE < entries.length) {
+      phrase = entries[code - FIRST_CODE];
+    } else if (previous !== undefined && code - FIRST_CODE === entries.length) {
+      // The entry being defined by this very token
+      phrase = previous + previous[0];
+    } else {
+      throw new Error(`Invalid code: ${code}`);
+    }
+
+    if (previous !== undefined) entries.push(previous + phrase[0]);
+    if (code === LITERAL_8 || code === LITERAL_16) entries.push(phrase);
+
+    out.push(phrase);
+    previous = phrase;
+  }
+
+  return out.join("");
+}
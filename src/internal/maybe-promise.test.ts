@@ -0,0 +1,35 @@
+import { attempt, chain, isPromiseLike } from "./maybe-promise";
+
+describe("maybe-promise helpers", () => {
+  test("isPromiseLike: detects thenables", () => {
+    expect(isPromiseLike(Promise.resolve())).toBe(true);
+    expect(isPromiseLike({ then: () => undefined })).toBe(true);
+    expect(isPromiseLike("value")).toBe(false);
+    expect(isPromiseLike(null)).toBe(false);
+  });
+
+  test("chain: stays synchronous for synchronous values", () => {
+    expect(chain(1, (value) => value + 1)).toBe(2);
+  });
+
+  test("chain: continues after promises", async () => {
+    const result = chain(Promise.resolve(1), (value) => value + 1);
+
+    expect(isPromiseLike(result)).toBe(true);
+    expect(await result).toBe(2);
+  });
+
+  test("attempt: handles thrown errors and rejections", async () => {
+    const onError = vi.fn(() => "recovered");
+
+    expect(
+      attempt(() => {
+        throw new Error("sync");
+      }, onError)
+    ).toBe("recovered");
+    expect(
+      await attempt(() => Promise.reject(new Error("async")), onError)
+    ).toBe("recovered");
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,43 @@
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Check whether a value is a promise (or any thenable)
+ */
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    value != null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
+
+/**
+ * Continue with a value that may or may not be a promise.
+ * Stays synchronous when the value is synchronous.
+ */
+export function chain<T, R>(
+  value: MaybePromise<T>,
+  next: (value: T) => MaybePromise<R>
+): MaybePromise<R> {
+  return isPromiseLike<T>(value)
+    ? Promise.resolve(value).then(next)
+    : next(value);
+}
+
+/**
+ * Run a function and handle both thrown errors and rejected promises.
+ * Stays synchronous when the function is synchronous.
+ */
+export function attempt<R>(
+  fn: () => MaybePromise<R>,
+  onError: (error: unknown) => MaybePromise<R>
+): MaybePromise<R> {
+  try {
+    const result = fn();
+    return isPromiseLike<R>(result)
+      ? Promise.resolve(result).catch(onError)
+      : result;
+  } catch (error) {
+    return onError(error);
+  }
+}
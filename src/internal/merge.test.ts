@@ -0,0 +1,139 @@
+import { diffValues, isEqual, layerValues, planRestore } from "./merge";
+
+describe("planRestore", () => {
+  test("walks nested objects down to their leaves", () => {
+    const current = { profile: { name: "", address: { city: "", zip: "" } } };
+
+    const plan = planRestore(current, {
+      profile: { address: { city: "Kyiv" } }
+    });
+
+    expect(plan.entries).toEqual([["profile.address.city", "Kyiv"]]);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  test("skips paths that do not exist in the form", () => {
+    const current = { profile: { name: "" } };
+
+    const plan = planRestore(current, {
+      unknown: "value",
+      profile: { name: "Bob", age: 42 }
+    });
+
+    expect(plan.entries).toEqual([["profile.name", "Bob"]]);
+    expect(plan.skipped).toEqual(["unknown", "profile.age"]);
+  });
+
+  test("skips values that do not match the shape of the form", () => {
+    const current = { profile: { name: "" }, tags: [] as string[] };
+
+    const plan = planRestore(current, { profile: "Bob", tags: "a" });
+
+    expect(plan.entries).toEqual([]);
+    expect(plan.skipped).toEqual(["profile", "tags"]);
+  });
+
+  test("restores arrays as a whole, merged into the current items", () => {
+    const current = {
+      items: [{ name: "first", secret: "keep" }]
+    };
+
+    const plan = planRestore(current, {
+      items: [{ name: "a" }, { name: "b", unknown: true }]
+    });
+
+    expect(plan.entries).toEqual([
+      ["items", [{ name: "a", secret: "keep" }, { name: "b" }]]
+    ]);
+    expect(plan.skipped).toEqual(["items.1.unknown"]);
+  });
+
+  test("fills new array items from the default item", () => {
+    const current = { items: [{ name: "first", note: "edited" }] };
+    const defaults = { items: [{ name: "", note: "default" }] };
+
+    const plan = planRestore(
+      current,
+      { items: [{ name: "a" }, { name: "b" }] },
+      defaults
+    );
+
+    expect(plan.entries).toEqual([
+      [
+        "items",
+        [
+          { name: "a", note: "edited" },
+          { name: "b", note: "default" }
+        ]
+      ]
+    ]);
+  });
+
+  test("accepts stored values where the form has no shape yet", () => {
+    const current = { address: null, tags: [] as string[], note: undefined };
+
+    const plan = planRestore(current, {
+      address: { city: "Kyiv" },
+      tags: ["a", "b"],
+      note: "hello"
+    });
+
+    expect(plan.entries).toEqual([
+      ["address", { city: "Kyiv" }],
+      ["tags", ["a", "b"]],
+      ["note", "hello"]
+    ]);
+  });
+});
+
+describe("isEqual", () => {
+  test("compares values structurally", () => {
+    expect(isEqual({ a: [1, { b: "c" }] }, { a: [1, { b: "c" }] })).toBe(true);
+    expect(isEqual(new Date(0), new Date(0))).toBe(true);
+    expect(isEqual(NaN, NaN)).toBe(true);
+
+    expect(isEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(isEqual([1, 2], [2, 1])).toBe(false);
+    expect(isEqual("1", 1)).toBe(false);
+  });
+});
+
+describe("diffValues", () => {
+  test("keeps the leaves that differ from the base", () => {
+    const defaults = {
+      name: "",
+      address: { city: "Kyiv", zip: "01001" },
+      tags: ["a"]
+    };
+
+    expect(
+      diffValues(
+        { name: "", address: { city: "Lviv", zip: "01001" }, tags: ["a"] },
+        defaults
+      )
+    ).toEqual({ address: { city: "Lviv" } });
+    expect(
+      diffValues({ name: "Alice", address: {}, tags: ["a", "b"] }, defaults)
+    ).toEqual({ name: "Alice", tags: ["a", "b"] });
+    expect(diffValues({ name: "Alice" })).toEqual({ name: "Alice" });
+  });
+});
+
+describe("layerValues", () => {
+  test("applies the changed values over the base", () => {
+    const defaults = {
+      name: "",
+      address: { city: "Kyiv", zip: "02000" },
+      tags: ["a"]
+    };
+
+    expect(
+      layerValues(defaults, { address: { city: "Lviv" }, tags: ["b"] })
+    ).toEqual({
+      name: "",
+      address: { city: "Lviv", zip: "02000" },
+      tags: ["b"]
+    });
+    expect(defaults.address.city).toBe("Kyiv");
+  });
+});
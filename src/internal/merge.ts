@@ -0,0 +1,220 @@
+import { FieldValues, Path } from "react-hook-form";
+import { getIn, hasIn, setIn } from "./deep-copy";
+
+type Entry = [path: string, value: unknown];
+
+/**
+ * The paths and values to apply to the form, and the stored paths
+ * that do not exist in the form.
+ */
+export interface RestorePlan {
+  entries: Entry[];
+  skipped: string[];
+}
+
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> => {
+  if (value === null || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Compare two values structurally
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date)
+    return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+const join = (path: string, segment: string | number) =>
+  path ? `${path}.${segment}` : String(segment);
+
+interface Context {
+  skipped: string[];
+  defaults?: FieldValues;
+}
+
+/**
+ * Overlay stored array items on the current ones.
+ * Items that exist in the form keep the values the stored item lacks,
+ * new items are filled from the default item, or validated against
+ * the shape of the first item when there is no default.
+ */
+function overlayArray(
+  current: unknown[],
+  stored: unknown[],
+  path: string,
+  context: Context
+): unknown[] {
+  const defaults = context.defaults
+    ? getIn(context.defaults, path as Path<FieldValues>)
+    : undefined;
+  const template = Array.isArray(defaults) ? defaults[0] : undefined;
+
+  return stored.map((item, index) => {
+    const itemPath = join(path, index);
+    if (index < current.length)
+      return overlay(current[index], item, itemPath, context, true);
+
+    return template !== undefined
+      ? overlay(template, item, itemPath, context, true)
+      : overlay(current[0], item, itemPath, context, false);
+  });
+}
+
+function overlay(
+  shape: unknown,
+  stored: unknown,
+  path: string,
+  context: Context,
+  keepShapeValues: boolean
+): unknown {
+  if (shape == null || stored == null) return stored;
+
+  if (Array.isArray(stored)) {
+    if (Array.isArray(shape)) return overlayArray(shape, stored, path, context);
+  } else if (isPlainObject(stored)) {
+    if (isPlainObject(shape)) {
+      const result: Record<string, unknown> = keepShapeValues
+        ? { ...shape }
+        : {};
+
+      for (const [key, value] of Object.entries(stored)) {
+        if (!(key in shape)) {
+          context.skipped.push(join(path, key));
+          continue;
+        }
+        result[key] = overlay(
+          shape[key],
+          value,
+          join(path, key),
+          context,
+          keepShapeValues
+        );
+      }
+      return result;
+    }
+  } else if (!Array.isArray(shape) && !isPlainObject(shape)) {
+    return stored;
+  }
+
+  // The stored value does not match the shape of the form
+  context.skipped.push(path);
+  return keepShapeValues ? shape : undefined;
+}
+
+function collect(
+  current: FieldValues,
+  stored: Record<string, unknown>,
+  path: string,
+  plan: RestorePlan,
+  defaults?: FieldValues
+) {
+  for (const [key, value] of Object.entries(stored)) {
+    const valuePath = join(path, key) as Path<FieldValues>;
+
+    if (!hasIn(current, valuePath)) {
+      plan.skipped.push(valuePath);
+      continue;
+    }
+
+    const shape = getIn(current, valuePath);
+    if (isPlainObject(value) && isPlainObject(shape)) {
+      collect(current, value, valuePath, plan, defaults);
+      continue;
+    }
+
+    const skippedBefore = plan.skipped.length;
+    const restored = overlay(
+      shape,
+      value,
+      valuePath,
+      { skipped: plan.skipped, defaults },
+      true
+    );
+
+    // A mismatched leaf or container is skipped as a whole
+    if (plan.skipped[skippedBefore] === valuePath) continue;
+    plan.entries.push([valuePath, restored]);
+  }
+}
+
+/**
+ * Plan how to restore stored data into the current form values.
+ * Objects are walked down to their leaves so untouched defaults are kept,
+ * arrays are restored as a whole so field arrays can re-create their items.
+ * Stored paths that do not exist in the current values are skipped.
+ * New array items are filled from the first item of the array in `defaults`.
+ */
+export function planRestore(
+  current: FieldValues,
+  stored: unknown,
+  defaults?: FieldValues
+): RestorePlan {
+  const plan: RestorePlan = { entries: [], skipped: [] };
+  if (isPlainObject(stored)) collect(current, stored, "", plan, defaults);
+  return plan;
+}
+
+/**
+ * Keep the values that differ from `base`, e.g. the default values.
+ * Objects are compared down to their leaves, arrays and other values as a whole.
+ */
+export function diffValues<T extends FieldValues>(
+  values: Partial<T>,
+  base: FieldValues = {}
+): Partial<T> {
+  const diff: FieldValues = {};
+
+  const walk = (value: unknown, baseValue: unknown, path: string) => {
+    if (isPlainObject(value) && isPlainObject(baseValue)) {
+      for (const [key, child] of Object.entries(value))
+        walk(child, baseValue[key], join(path, key));
+      return;
+    }
+    if (!isEqual(value, baseValue))
+      setIn(diff, path as Path<FieldValues>, value);
+  };
+
+  walk(values, base, "");
+  return diff as Partial<T>;
+}
+
+/**
+ * Apply values kept by `diffValues` over `base`, so the base shows through
+ * where they do not differ.
+ */
+export function layerValues<T extends FieldValues>(
+  base: FieldValues = {},
+  values: Partial<T>
+): Partial<T> {
+  const layered = structuredClone(base);
+
+  const walk = (value: unknown, path: string) => {
+    const baseValue = path
+      ? getIn(layered, path as Path<FieldValues>)
+      : layered;
+    if (isPlainObject(value) && isPlainObject(baseValue)) {
+      for (const [key, child] of Object.entries(value))
+        walk(child, join(path, key));
+      return;
+    }
+    setIn(layered, path as Path<FieldValues>, value);
+  };
+
+  walk(values, "");
+  return layered as Partial<T>;
+}
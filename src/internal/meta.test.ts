@@ -0,0 +1,29 @@
+import { errorPaths, flagPaths } from "./meta";
+
+describe("flagPaths", () => {
+  test("lists the flagged leaves", () => {
+    expect(
+      flagPaths({
+        name: true,
+        email: false,
+        address: { city: true },
+        contacts: [{ phone: true }, undefined, { phone: false }]
+      })
+    ).toEqual(["name", "address.city", "contacts.0.phone"]);
+  });
+});
+
+describe("errorPaths", () => {
+  test("lists the fields with errors, without root errors", () => {
+    expect(
+      errorPaths({
+        root: { type: "server", message: "Try again" },
+        email: { type: "required", message: "Required" },
+        contacts: {
+          root: { type: "minLength" },
+          1: { phone: { type: "pattern" } }
+        }
+      })
+    ).toEqual(["email", "contacts.1.phone"]);
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  Field,
+  FieldRefs,
+  FieldValues,
+  FormState,
+  Path,
+  PathValue,
+  UseFormReturn
+} from "react-hook-form";
+import { PersistedMeta } from "../parsers/types";
+import { getIn } from "./deep-copy";
+
+/**
+ * Which parts of the form state to persist.
+ */
+export interface PersistMetaOptions {
+  /** Keep `formState.dirtyFields`. */
+  dirty?: boolean;
+  /** Keep `formState.touchedFields`. */
+  touched?: boolean;
+  /** Validate fields that had errors again on restore, so their messages come back. */
+  errors?: boolean;
+  /** Focus the last active field again, with its caret position. */
+  focus?: boolean;
+}
+
+export const ALL_META: PersistMetaOptions = {
+  dirty: true,
+  touched: true,
+  errors: true,
+  focus: true
+};
+
+const join = (path: string, segment: string) =>
+  path ? `${path}.${segment}` : segment;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object";
+
+/**
+ * List the paths flagged `true` in `dirtyFields` or `touchedFields`
+ */
+export function flagPaths(flags: unknown, path = ""): string[] {
+  if (flags === true) return path ? [path] : [];
+  if (!isObject(flags)) return [];
+
+  return Object.keys(flags).flatMap((key) =>
+    flagPaths(flags[key], join(path, key))
+  );
+}
+
+/**
+ * List the paths of the fields in `formState.errors`.
+ * Root errors of the form and of field arrays are skipped.
+ */
+export function errorPaths(errors: unknown, path = ""): string[] {
+  if (!isObject(errors)) return [];
+  if (path && typeof errors.type === "string") return [path];
+
+  return Object.keys(errors)
+    .filter((key) => key !== "root")
+    .flatMap((key) => errorPaths(errors[key], join(path, key)));
+}
+
+// Inputs of other forms may share a name with a field of this one
+const isRegistered = (fields: FieldRefs, name: string, element: Element) => {
+  const field = (getIn(fields as FieldValues, name) as Field | undefined)?._f;
+  return Boolean(
+    field &&
+    (field.ref === element || field.refs?.includes(element as HTMLInputElement))
+  );
+};
+
+const focusedField = (fields: FieldRefs): PersistedMeta["focus"] => {
+  if (typeof document === "undefined") return undefined;
+
+  const element = document.activeElement as HTMLInputElement | null;
+  const name = element?.getAttribute?.("name");
+  if (!element || !name || !isRegistered(fields, name, element))
+    return undefined;
+
+  const focus: PersistedMeta["focus"] = { name };
+  // Reading the caret throws or returns null for inputs without one
+  try {
+    if (typeof element.selectionStart === "number") {
+      focus.selectionStart = element.selectionStart;
+      focus.selectionEnd = element.selectionEnd ?? element.selectionStart;
+    }
+  } catch {
+    // No caret to keep
+  }
+  return focus;
+};
+
+/**
+ * The parts of the form state that can be persisted.
+ */
+export type MetaState<T extends FieldValues> = Partial<
+  Pick<FormState<T>, "dirtyFields" | "touchedFields" | "errors">
+>;
+
+/**
+ * Read the selected parts of the form state. The focused element is only
+ * kept when it is one of the form's registered `fields`.
+ */
+export function captureMeta<T extends FieldValues>(
+  { dirtyFields, touchedFields, errors }: MetaState<T>,
+  options: PersistMetaOptions,
+  fields: FieldRefs
+): PersistedMeta {
+  const meta: PersistedMeta = {};
+
+  if (options.dirty) meta.dirty = flagPaths(dirtyFields);
+  if (options.touched) meta.touched = flagPaths(touchedFields);
+  if (options.errors) meta.errors = errorPaths(errors);
+  if (options.focus) {
+    const focus = focusedField(fields);
+    if (focus) meta.focus = focus;
+  }
+  return meta;
+}
+
+/**
+ * Re-apply the selected parts of a stored form state, after its values were restored.
+ * Failed validations are passed to `warn`, e.g. the persister's.
+ */
+export function applyMeta<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  meta: PersistedMeta,
+  options: PersistMetaOptions,
+  warn: (message: string, ...details: unknown[]) => void
+): void {
+  const dirty = new Set(options.dirty ? meta.dirty : []);
+  const touched = new Set(options.touched ? meta.touched : []);
+
+  // Setting the current value again only updates the flags
+  for (const path of new Set([...dirty, ...touched])) {
+    const name = path as Path<T>;
+    form.setValue(name, form.getValues(name) as PathValue<T, Path<T>>, {
+      shouldDirty: dirty.has(path),
+      shouldTouch: touched.has(path)
+    });
+  }
+
+  if (options.errors && meta.errors?.length)
+    form.trigger(meta.errors as Path<T>[]).catch((err: unknown) => {
+      warn("Failed to validate restored fields", err);
+    });
+
+  const { focus } = meta;
+  if (!options.focus || !focus) return;
+
+  form.setFocus(focus.name as Path<T>);
+  const element = document.activeElement as HTMLInputElement | null;
+  if (
+    focus.selectionStart === undefined ||
+    element?.getAttribute?.("name") !== focus.name
+  )
+    return;
+  try {
+    element.setSelectionRange(focus.selectionStart, focus.selectionEnd ?? null);
+  } catch {
+    // The input type has no caret
+  }
+}
@@ -0,0 +1,75 @@
+import { findMigrationPath, runMigrations } from "./migrate";
+
+describe("migrations", () => {
+  test("findMigrationPath: chains steps to reach the target version", () => {
+    const migrations = {
+      "1->2": (data: object) => data,
+      "2->3": (data: object) => data,
+      "3->4": (data: object) => data
+    };
+
+    expect(findMigrationPath(migrations, "1", "3")).toEqual(["1->2", "2->3"]);
+    expect(findMigrationPath(migrations, "2", "4")).toEqual(["2->3", "3->4"]);
+    expect(findMigrationPath(migrations, "3", "3")).toEqual([]);
+  });
+
+  test("findMigrationPath: prefers the shortest path", () => {
+    const migrations = {
+      "1->2": (data: object) => data,
+      "2->3": (data: object) => data,
+      "1->3": (data: object) => data
+    };
+
+    expect(findMigrationPath(migrations, "1", "3")).toEqual(["1->3"]);
+  });
+
+  test("findMigrationPath: returns undefined when no path exists", () => {
+    const migrations = { "1->2": (data: object) => data };
+
+    expect(findMigrationPath(migrations, "2", "1")).toBeUndefined();
+    expect(findMigrationPath(migrations, "1", "3")).toBeUndefined();
+  });
+
+  test("runMigrations: applies steps in order and reports them", () => {
+    const migrations = {
+      "1->2": (data: { name?: string }) => ({ fullName: data.name }),
+      "2->3": (data: { fullName?: string }) => ({
+        fullName: data.fullName?.toUpperCase()
+      })
+    };
+
+    const { data, report } = runMigrations(
+      migrations,
+      ["1->2", "2->3"],
+      { name: "john" },
+      "1",
+      "3"
+    );
+
+    expect(data).toEqual({ fullName: "JOHN" });
+    expect(report).toEqual({ from: "1", to: "3", steps: ["1->2", "2->3"] });
+  });
+
+  test("runMigrations: stops at the failing step", () => {
+    const error = new Error("boom");
+    const migrations = {
+      "1->2": (data: object) => data,
+      "2->3": () => {
+        throw error;
+      }
+    };
+
+    const { data, report } = runMigrations(
+      migrations,
+      ["1->2", "2->3"],
+      {},
+      "1",
+      "3"
+    );
+
+    expect(data).toBeUndefined();
+    expect(report.steps).toEqual(["1->2"]);
+    expect(report.failedStep).toBe("2->3");
+    expect(report.error).toBe(error);
+  });
+});
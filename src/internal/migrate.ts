@@ -0,0 +1,106 @@
+import { FieldValues } from "react-hook-form";
+
+type Version = string;
+
+/**
+ * A single migration step, identified as `"<from>-><to>"`.
+ */
+export type MigrationStep = `${Version}->${Version}`;
+
+/**
+ * Upgrades stored data from one version to the next.
+ */
+export type MigrationFn = (data: Partial<FieldValues>) => Partial<FieldValues>;
+
+export type Migrations = Partial<Record<MigrationStep, MigrationFn>>;
+
+/**
+ * Describes the outcome of running migrations over stored data.
+ */
+export interface MigrationReport {
+  from: Version;
+  to: Version;
+  /** Steps that ran successfully, in order. */
+  steps: MigrationStep[];
+  /** The step that threw, if any. */
+  failedStep?: MigrationStep;
+  error?: unknown;
+}
+
+const STEP_SEPARATOR = "->";
+
+function parseStep(step: string): [Version, Version] | undefined {
+  const index = step.indexOf(STEP_SEPARATOR);
+  if (index <= 0) return undefined;
+
+  return [step.slice(0, index), step.slice(index + STEP_SEPARATOR.length)];
+}
+
+/**
+ * Find the shortest chain of steps leading from one version to another
+ */
+export function findMigrationPath(
+  migrations: Migrations,
+  from: Version,
+  to: Version
+): MigrationStep[] | undefined {
+  if (from === to) return [];
+
+  const edges = new Map<Version, MigrationStep[]>();
+  for (const step of Object.keys(migrations) as MigrationStep[]) {
+    const parsed = parseStep(step);
+    if (!parsed || !migrations[step]) continue;
+
+    const [source] = parsed;
+    edges.set(source, [...(edges.get(source) ?? []), step]);
+  }
+
+  const visited = new Set<Version>([from]);
+  const queue: [Version, MigrationStep[]][] = [[from, []]];
+
+  while (queue.length) {
+    const [version, path] = queue.shift()!;
+
+    for (const step of edges.get(version) ?? []) {
+      const [, target] = parseStep(step)!;
+      if (visited.has(target)) continue;
+
+      const next = [...path, step];
+      if (target === to) return next;
+
+      visited.add(target);
+      queue.push([target, next]);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Chain migration steps over the stored data
+ *
+ * @returns The upgraded data (when every step succeeded) and a report
+ */
+export function runMigrations<T extends FieldValues>(
+  migrations: Migrations,
+  path: MigrationStep[],
+  data: Partial<T>,
+  from: Version,
+  to: Version
+): { data?: Partial<T>; report: MigrationReport } {
+  const report: MigrationReport = { from, to, steps: [] };
+  let current: Partial<FieldValues> = data;
+
+  for (const step of path) {
+    try {
+      current = migrations[step]!(current);
+      report.steps.push(step);
+    } catch (error) {
+      report.failedStep = step;
+      report.error = error;
+      return { report };
+    }
+  }
+
+  return { data: current as Partial<T>, report };
+}
@@ -0,0 +1,72 @@
+import { expandPattern, matchPath, PathPattern } from "./path-pattern";
+
+interface Sample {
+  password: string;
+  payments: { number: string; cvv: string }[];
+  contacts: { phone: string }[];
+  account: { login: { password: string }; createdAt: Date };
+}
+
+const data: Sample = {
+  password: "secret",
+  payments: [
+    { number: "4111", cvv: "123" },
+    { number: "5500", cvv: "456" }
+  ],
+  contacts: [{ phone: "1" }, { phone: "2" }, { phone: "3" }, { phone: "4" }],
+  account: { login: { password: "hunter2" }, createdAt: new Date(0) }
+};
+
+describe("path patterns", () => {
+  test("matchPath: matches wildcards, globstars and index ranges", () => {
+    expect(matchPath("payments.*.cvv", "payments.3.cvv")).toBe(true);
+    expect(matchPath("payments.*.cvv", "payments.3.number")).toBe(false);
+    expect(matchPath("**.password", "password")).toBe(true);
+    expect(matchPath("**.password", "account.login.password")).toBe(true);
+    expect(matchPath("contacts.[0-2].phone", "contacts.2.phone")).toBe(true);
+    expect(matchPath("contacts.[0-2].phone", "contacts.3.phone")).toBe(false);
+    expect(matchPath("contacts.[1].phone", "contacts.1.phone")).toBe(true);
+    expect(matchPath("account", "account.login")).toBe(false);
+  });
+
+  test("expandPattern: finds the existing paths that match", () => {
+    expect(expandPattern(data, "payments.*.cvv")).toEqual([
+      "payments.0.cvv",
+      "payments.1.cvv"
+    ]);
+    expect(expandPattern(data, "**.password")).toEqual([
+      "password",
+      "account.login.password"
+    ]);
+    expect(expandPattern(data, "contacts.[1-2].phone")).toEqual([
+      "contacts.1.phone",
+      "contacts.2.phone"
+    ]);
+    expect(expandPattern(data, "missing.*")).toEqual([]);
+  });
+
+  test("expandPattern: does not walk into dates and other instances", () => {
+    expect(expandPattern(data, "account.createdAt.*")).toEqual([]);
+    expect(expandPattern(data, "account.*")).toEqual([
+      "account.login",
+      "account.createdAt"
+    ]);
+  });
+
+  test("PathPattern: only accepts patterns over real paths", () => {
+    const patterns: PathPattern<Sample>[] = [
+      "password",
+      "payments.*.cvv",
+      "payments.[0-1].number",
+      "**.password",
+      "account.**.password"
+    ];
+    expect(patterns).toHaveLength(5);
+
+    // @ts-expect-error - no such field
+    const unknownField: PathPattern<Sample> = "payments.*.pin";
+    // @ts-expect-error - objects are not indexed by ranges
+    const rangeOnObject: PathPattern<Sample> = "account.[0].login";
+    expect([unknownField, rangeOnObject]).toHaveLength(2);
+  });
+});
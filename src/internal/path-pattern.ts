@@ -0,0 +1,142 @@
+import {
+  BrowserNativeObject,
+  FieldValues,
+  IsAny,
+  Path,
+  Primitive
+} from "react-hook-form";
+
+type Leaf = Primitive | BrowserNativeObject | Blob;
+
+// Limits how deep patterns are generated, to keep the types fast
+type Depth = [never, 0, 1, 2, 3, 4, 5];
+
+/** Segments that match array indices: `0`, `*`, `[0]` or `[0-2]`. */
+type IndexSegment = `${number}` | "*" | `[${number}]` | `[${number}-${number}]`;
+
+type Step<S extends string, V, D extends number, Deep extends boolean> =
+  S | `${S}.${Patterns<V, Depth[D], Deep>}`;
+
+// T and every value nested in it
+type Nested<T, D extends number> = [D] extends [never]
+  ? never
+  : T extends Leaf
+    ? never
+    : | T
+      | (T extends readonly (infer V)[]
+          ? Nested<V, Depth[D]>
+          : { [K in keyof T]: Nested<T[K], Depth[D]> }[keyof T]);
+
+// Patterns over the paths of T. `**` is allowed once per pattern
+type Patterns<T, D extends number, Deep extends boolean> = [D] extends [never]
+  ? never
+  : IsAny<T> extends true
+    ? string
+    : T extends Leaf
+      ? never
+      : | (T extends readonly (infer V)[]
+            ? Step<IndexSegment, V, D, Deep>
+            : | {
+                  [K in keyof T & string]: Step<K, T[K], D, Deep>;
+                }[keyof T & string]
+              | Step<"*", T[keyof T], D, Deep>)
+        | (Deep extends true
+            ? "**" | `**.${Patterns<Nested<T, D>, D, false>}`
+            : never);
+
+/**
+ * A field path or a glob-style pattern over the paths of `T`.
+ *
+ * - `*` matches one segment: `payments.*.cvv`
+ * - `**` matches any number of segments: `**.password`
+ * - `[n]` and `[n-m]` match array indices: `contacts.[0-2].phone`
+ *
+ * @template T - The shape of your form values (inferred from react-hook-form).
+ */
+export type PathPattern<T extends FieldValues> = Path<T> | Patterns<T, 5, true>;
+
+const GLOBSTAR = "**";
+const RANGE = /^\[(\d+)(?:-(\d+))?\]$/;
+
+type Matcher = (segment: string) => boolean;
+
+const isIndex = (s: string) => String(+s) === s;
+
+function parseSegment(segment: string): Matcher | typeof GLOBSTAR {
+  if (segment === GLOBSTAR) return GLOBSTAR;
+  if (segment === "*") return () => true;
+
+  const range = RANGE.exec(segment);
+  if (range) {
+    const from = +range[1];
+    const to = range[2] === undefined ? from : +range[2];
+    return (s) => isIndex(s) && +s >= from && +s <= to;
+  }
+  return (s) => s === segment;
+}
+
+const parse = (pattern: string) => pattern.split(".").map(parseSegment);
+
+function children(node: unknown): [string, unknown][] {
+  if (Array.isArray(node)) {
+    const entries: [string, unknown][] = [];
+    for (let i = 0; i < node.length; i++)
+      if (i in node) entries.push([String(i), node[i]]);
+    return entries;
+  }
+  if (node === null || typeof node !== "object") return [];
+
+  // Dates, files and other class instances are values, not containers
+  const prototype = Object.getPrototypeOf(node);
+  if (prototype !== Object.prototype && prototype !== null) return [];
+  return Object.entries(node);
+}
+
+/**
+ * Check whether a concrete path matches a path or pattern
+ */
+export function matchPath(pattern: string, path: string): boolean {
+  const matchers = parse(pattern);
+  const segments = path.split(".");
+
+  const match = (i: number, j: number): boolean => {
+    if (i === matchers.length) return j === segments.length;
+
+    const matcher = matchers[i];
+    if (matcher === GLOBSTAR)
+      return match(i + 1, j) || (j < segments.length && match(i, j + 1));
+
+    return j < segments.length && matcher(segments[j]) && match(i + 1, j + 1);
+  };
+
+  return match(0, 0);
+}
+
+/**
+ * Find the existing paths of an object that match a path or pattern
+ */
+export function expandPattern(obj: unknown, pattern: string): string[] {
+  const matchers = parse(pattern);
+  const found = new Set<string>();
+
+  const visit = (node: unknown, i: number, path: string[]) => {
+    if (i === matchers.length) {
+      if (path.length) found.add(path.join("."));
+      return;
+    }
+
+    const matcher = matchers[i];
+    if (matcher === GLOBSTAR) {
+      visit(node, i + 1, path);
+      for (const [key, child] of children(node))
+        visit(child, i, [...path, key]);
+      return;
+    }
+
+    for (const [key, child] of children(node))
+      if (matcher(key)) visit(child, i + 1, [...path, key]);
+  };
+
+  visit(obj, 0, []);
+  return [...found];
+}
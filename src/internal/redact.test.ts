@@ -0,0 +1,57 @@
+import {
+  findSensitivePaths,
+  isSensitiveElement,
+  isSensitivePath
+} from "./redact";
+
+const input = (attributes: Record<string, string>) => {
+  const element = document.createElement("input");
+  for (const [name, value] of Object.entries(attributes))
+    element.setAttribute(name, value);
+  return element;
+};
+
+describe("redact", () => {
+  test("isSensitiveElement: detects passwords, card fields and one-time codes", () => {
+    expect(isSensitiveElement(input({ type: "password" }))).toBe(true);
+    expect(isSensitiveElement(input({ autocomplete: "cc-number" }))).toBe(true);
+    expect(isSensitiveElement(input({ autocomplete: "billing cc-csc" }))).toBe(
+      true
+    );
+    expect(isSensitiveElement(input({ autocomplete: "one-time-code" }))).toBe(
+      true
+    );
+    expect(isSensitiveElement(input({ autocomplete: "email" }))).toBe(false);
+    expect(isSensitiveElement(null)).toBe(false);
+  });
+
+  test("isSensitivePath: matches the last segment by name", () => {
+    expect(isSensitivePath("confirmPassword")).toBe(true);
+    expect(isSensitivePath("payments.0.cvv")).toBe(true);
+    expect(isSensitivePath("card.card_number")).toBe(true);
+    expect(isSensitivePath("auth.refresh-token")).toBe(true);
+    expect(isSensitivePath("shipping.address")).toBe(false);
+    expect(isSensitivePath("passwordHint.text")).toBe(false);
+  });
+
+  test("findSensitivePaths: combines detected fields and names, minus allowed", () => {
+    const data = {
+      login: "alice",
+      code: "123456",
+      cards: [{ number: "4111", cvv: "123" }],
+      passwordHint: "pet"
+    };
+
+    expect(findSensitivePaths(data, new Set(["code"]))).toEqual([
+      "code",
+      "cards.0.cvv",
+      "passwordHint"
+    ]);
+    expect(
+      findSensitivePaths(data, new Set(["code"]), [
+        "passwordHint",
+        "cards.*.cvv"
+      ])
+    ).toEqual(["code"]);
+  });
+});
@@ -0,0 +1,45 @@
+import { expandPattern, matchPath } from "./path-pattern";
+
+// Matched against the last path segment, lowercased without `-` and `_`
+const SENSITIVE_NAME =
+  /password|passwd|passcode|passphrase|^pwd$|^pass$|secret|token|apikey|^cvc$|^cvv2?$|^csc$|cardnumber|^ccnum(ber)?$|^ssn$|^otp$|onetimecode|^pin$/;
+
+/**
+ * Check whether an input holds a password, a card detail or a one-time code
+ */
+export function isSensitiveElement(element: unknown): boolean {
+  if (!element || typeof (element as Element).getAttribute !== "function")
+    return false;
+
+  const input = element as Element;
+  if (input.getAttribute("type") === "password") return true;
+
+  return (input.getAttribute("autocomplete") ?? "")
+    .toLowerCase()
+    .split(/\s+/)
+    .some((token) => token.startsWith("cc-") || token === "one-time-code");
+}
+
+/**
+ * Check whether a field name looks like it holds a secret
+ */
+export function isSensitivePath(path: string): boolean {
+  const name = path.split(".").pop()!;
+  return SENSITIVE_NAME.test(name.replace(/[-_]/g, "").toLowerCase());
+}
+
+/**
+ * Find the paths of the data to redact: fields whose input was detected
+ * as sensitive and fields with sensitive names, minus the allowed ones.
+ */
+export function findSensitivePaths(
+  data: unknown,
+  detected: ReadonlySet<string>,
+  allow: readonly string[] = []
+): string[] {
+  return expandPattern(data, "**").filter(
+    (path) =>
+      (detected.has(path) || isSensitivePath(path)) &&
+      !allow.some((pattern) => matchPath(pattern, path))
+  );
+}
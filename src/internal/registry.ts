@@ -0,0 +1,48 @@
+import { FieldValues } from "react-hook-form";
+import type { FormPersister } from "../core";
+
+// The persisters of the mounted forms, by key, for the devtools
+const persisters = new Map<string, FormPersister<FieldValues>>();
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  for (const listener of listeners) listener();
+};
+
+/**
+ * Make a persister visible to the devtools. Returns a function that removes it.
+ */
+export function registerPersister<T extends FieldValues>(
+  key: string,
+  persister: FormPersister<T>
+): () => void {
+  const registered = persister as unknown as FormPersister<FieldValues>;
+  persisters.set(key, registered);
+  notify();
+
+  return () => {
+    if (persisters.get(key) !== registered) return;
+    persisters.delete(key);
+    notify();
+  };
+}
+
+/**
+ * List the registered persisters
+ */
+export function getPersisters(): ReadonlyMap<
+  string,
+  FormPersister<FieldValues>
+> {
+  return persisters;
+}
+
+/**
+ * Listen to persisters being registered and removed. Returns a function that stops listening.
+ */
+export function subscribePersisters(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,152 @@
+import { createRemoteSync, isNewerDraft, RemoteAdapter } from "./remote-sync";
+import { VersionedData } from "../parsers/types";
+
+interface Values {
+  name: string;
+}
+
+const draft = (savedAt: number, version = "1"): VersionedData<Values> => ({
+  version,
+  data: { name: `saved at ${savedAt}` },
+  savedAt
+});
+
+const createServer = () => {
+  const drafts = new Map<string, VersionedData<Values>>();
+  const adapter = {
+    pull: vi.fn(async (key: string) => drafts.get(key) ?? null),
+    push: vi.fn(async (key: string, envelope: VersionedData<Values>) => {
+      drafts.set(key, envelope);
+    }),
+    remove: vi.fn(async (key: string) => {
+      drafts.delete(key);
+    })
+  } satisfies RemoteAdapter<Values>;
+  return { drafts, adapter };
+};
+
+describe("isNewerDraft", () => {
+  test("prefers the current version, then the latest save", () => {
+    expect(isNewerDraft(draft(2), draft(1), "1")).toBe(true);
+    expect(isNewerDraft(draft(1), draft(2), "1")).toBe(false);
+    expect(isNewerDraft(draft(1), draft(2, "0"), "1")).toBe(true);
+    expect(isNewerDraft(draft(2, "0"), draft(1), "1")).toBe(false);
+    expect(isNewerDraft(draft(1), undefined, "1")).toBe(true);
+    expect(isNewerDraft(null, draft(1), "1")).toBe(false);
+  });
+
+  test("never prefers expired drafts", () => {
+    expect(isNewerDraft({ ...draft(2), expiresAt: 5 }, draft(1), "1", 5)).toBe(
+      false
+    );
+  });
+});
+
+describe("createRemoteSync", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  test("pushes the latest draft and reports its status", async () => {
+    const { drafts, adapter } = createServer();
+    const onStatus = vi.fn();
+    const sync = createRemoteSync(adapter, {
+      key: "form",
+      onStatus,
+      onError: vi.fn()
+    });
+
+    sync.push(draft(1));
+    sync.push(draft(2));
+    sync.push(draft(3));
+    await vi.runAllTimersAsync();
+
+    expect(adapter.push).toHaveBeenCalledTimes(2);
+    expect(drafts.get("form")).toEqual(draft(3));
+    expect(onStatus.mock.calls).toEqual([["syncing"], ["idle"]]);
+
+    sync.remove();
+    await vi.runAllTimersAsync();
+    expect(drafts.has("form")).toBe(false);
+    sync.dispose();
+  });
+
+  test("retries failed pushes with a growing delay", async () => {
+    const { drafts, adapter } = createServer();
+    adapter.push.mockRejectedValueOnce(new Error("500"));
+    adapter.push.mockRejectedValueOnce(new Error("500"));
+    const onStatus = vi.fn();
+    const onError = vi.fn();
+    const sync = createRemoteSync(adapter, {
+      key: "form",
+      onStatus,
+      onError,
+      retryMs: 100
+    });
+
+    sync.push(draft(1));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onStatus).toHaveBeenLastCalledWith("error");
+    expect(onError).toHaveBeenCalledWith(
+      new Error("500"),
+      "Failed to sync draft"
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(adapter.push).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(adapter.push).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(drafts.get("form")).toEqual(draft(1));
+    expect(onStatus).toHaveBeenLastCalledWith("idle");
+    sync.dispose();
+  });
+
+  test("queues changes while offline", async () => {
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    const { drafts, adapter } = createServer();
+    const onStatus = vi.fn();
+    const sync = createRemoteSync(adapter, {
+      key: "form",
+      onStatus,
+      onError: vi.fn()
+    });
+
+    sync.push(draft(1));
+    await vi.runAllTimersAsync();
+    expect(adapter.push).not.toHaveBeenCalled();
+    expect(onStatus).toHaveBeenLastCalledWith("offline");
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event("online"));
+    await vi.runAllTimersAsync();
+
+    expect(drafts.get("form")).toEqual(draft(1));
+    expect(onStatus).toHaveBeenLastCalledWith("idle");
+    sync.dispose();
+  });
+
+  test("does not send back the pulled draft", async () => {
+    const { drafts, adapter } = createServer();
+    drafts.set("form", draft(1));
+    const sync = createRemoteSync(adapter, {
+      key: "form",
+      onStatus: vi.fn(),
+      onError: vi.fn()
+    });
+
+    expect(await sync.pull()).toEqual(draft(1));
+    sync.push(draft(1));
+    await vi.runAllTimersAsync();
+
+    expect(adapter.push).not.toHaveBeenCalled();
+    sync.dispose();
+  });
+});
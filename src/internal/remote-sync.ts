@@ -0,0 +1,219 @@
+import { FieldValues } from "react-hook-form";
+import { MaybePromise } from "./maybe-promise";
+import { Version, VersionedData } from "../parsers/types";
+
+/**
+ * Stores drafts on a server so they follow the user across devices.
+ * Drafts are sent as envelopes, after `include` / `exclude` and redaction
+ * but without going through the `parser`, so encrypt them on the way if needed.
+ *
+ * @template T - The shape of your form values.
+ */
+export interface RemoteAdapter<T extends FieldValues> {
+  /** Read the draft stored on the server, or `null` when there is none. */
+  pull(key: string): MaybePromise<VersionedData<T> | null | undefined>;
+
+  /** Store the draft on the server. Failed pushes are retried. */
+  push(key: string, envelope: VersionedData<T>): MaybePromise<void>;
+
+  /** Remove the draft from the server. Without it, cleared drafts stay on the server. */
+  remove?(key: string): MaybePromise<void>;
+}
+
+/**
+ * The state of the remote sync.
+ * - `idle`: nothing left to send
+ * - `syncing`: a pull or push is in flight
+ * - `offline`: changes wait for the browser to get back online
+ * - `error`: the last request failed, failed pushes are retried with a growing delay
+ */
+export type SyncStatus = "idle" | "syncing" | "offline" | "error";
+
+/**
+ * Options for `createRemoteSync`.
+ */
+export interface RemoteSyncOptions {
+  key: string;
+  onStatus: (status: SyncStatus) => void;
+  /** Called when a request fails, e.g. the persister's `report`. */
+  onError: (error: unknown, message: string) => void;
+  /** The delay before the first retry, doubled on every failure. Defaults to 1000. */
+  retryMs?: number;
+  /** The longest delay between retries. Defaults to 30000. */
+  maxRetryMs?: number;
+}
+
+export interface RemoteSync<T extends FieldValues> {
+  /** Read the remote draft. Resolves to `undefined` when there is none or the request failed. */
+  pull(): Promise<VersionedData<T> | undefined>;
+  /** Queue the draft to be sent. Only the latest queued change is kept. */
+  push(envelope: VersionedData<T>): void;
+  /** Queue the removal of the remote draft. */
+  remove(): void;
+  /** Stop retrying and listening to connectivity changes. */
+  dispose(): void;
+}
+
+type Operation<T extends FieldValues> =
+  { type: "push"; envelope: VersionedData<T> } | { type: "remove" };
+
+const isOnline = () =>
+  typeof navigator === "undefined" || navigator.onLine !== false;
+
+/**
+ * Check whether a draft should replace another one: drafts of the current
+ * version win over drafts of other versions, then the most recently saved wins.
+ * Expired drafts never win.
+ */
+export function isNewerDraft<T extends FieldValues>(
+  draft: VersionedData<T> | null | undefined,
+  than: VersionedData<T> | null | undefined,
+  version: Version,
+  now = Date.now()
+): draft is VersionedData<T> {
+  if (!draft || draft.version !== version) return false;
+  if (draft.expiresAt !== undefined && draft.expiresAt <= now) return false;
+  if (!than || than.version !== version) return true;
+  return (draft.savedAt ?? 0) > (than.savedAt ?? 0);
+}
+
+/**
+ * Send drafts to a remote adapter one request at a time,
+ * keeping the latest change queued while offline or after a failure.
+ */
+export function createRemoteSync<T extends FieldValues>(
+  remote: RemoteAdapter<T>,
+  {
+    key,
+    onStatus,
+    onError,
+    retryMs = 1000,
+    maxRetryMs = 30000
+  }: RemoteSyncOptions
+): RemoteSync<T> {
+  let queued: Operation<T> | undefined;
+  let known: VersionedData<T> | undefined;
+  let inFlight = 0;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let status: SyncStatus = "idle";
+  let disposed = false;
+
+  const setStatus = (next: SyncStatus) => {
+    if (next === status || disposed) return;
+    status = next;
+    onStatus(next);
+  };
+
+  const settle = () => {
+    if (inFlight) setStatus("syncing");
+    else if (!isOnline()) setStatus("offline");
+    else if (failures) setStatus("error");
+    else setStatus("idle");
+  };
+
+  const flush = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    timer = undefined;
+    if (disposed || inFlight || !queued) return;
+    if (!isOnline()) return settle();
+
+    const operation = queued;
+    queued = undefined;
+    inFlight++;
+    settle();
+
+    Promise.resolve()
+      .then(() =>
+        operation.type === "push"
+          ? remote.push(key, operation.envelope)
+          : remote.remove?.(key)
+      )
+      .then(
+        () => {
+          inFlight--;
+          failures = 0;
+          known = operation.type === "push" ? operation.envelope : undefined;
+          flush();
+          settle();
+        },
+        (err) => {
+          inFlight--;
+          failures++;
+          // A newer change queued meanwhile replaces the failed one
+          if (!queued) queued = operation;
+          if (!disposed) onError(err, "Failed to sync draft");
+          settle();
+
+          if (!disposed && isOnline()) {
+            const delay = Math.min(retryMs * 2 ** (failures - 1), maxRetryMs);
+            timer = setTimeout(flush, delay);
+          }
+        }
+      );
+  };
+
+  const onOnline = () => {
+    settle();
+    flush();
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", settle);
+  }
+
+  return {
+    pull: () => {
+      inFlight++;
+      settle();
+
+      return Promise.resolve()
+        .then(() => remote.pull(key))
+        .then(
+          (envelope) => {
+            failures = 0;
+            known = envelope ?? undefined;
+            return known;
+          },
+          (err) => {
+            failures++;
+            if (!disposed) onError(err, "Failed to pull draft");
+            return undefined;
+          }
+        )
+        .then((envelope) => {
+          inFlight--;
+          flush();
+          settle();
+          return envelope;
+        });
+    },
+
+    push: (envelope) => {
+      // Drafts received from the server are cached locally, not sent back
+      if (
+        known &&
+        known.savedAt !== undefined &&
+        known.savedAt === envelope.savedAt
+      )
+        return;
+      queued = { type: "push", envelope };
+      flush();
+    },
+
+    remove: () => {
+      queued = remote.remove ? { type: "remove" } : undefined;
+      flush();
+    },
+
+    dispose: () => {
+      disposed = true;
+      if (timer !== undefined) clearTimeout(timer);
+      if (typeof window !== "undefined") {
+        window.removeEventListener("online", onOnline);
+        window.removeEventListener("offline", settle);
+      }
+    }
+  };
+}
@@ -0,0 +1,86 @@
+import { createScheduler } from "./scheduler";
+
+describe("createScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("runs immediately without options", () => {
+    const run = vi.fn();
+    const scheduler = createScheduler(run);
+
+    scheduler.schedule();
+    scheduler.schedule();
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test("debounce: runs once after inactivity", () => {
+    const run = vi.fn();
+    const scheduler = createScheduler(run, { debounceMs: 100 });
+
+    scheduler.schedule();
+    vi.advanceTimersByTime(50);
+    scheduler.schedule();
+    vi.advanceTimersByTime(99);
+    expect(run).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test("throttle: runs the first call and at most once per window", () => {
+    const run = vi.fn();
+    const scheduler = createScheduler(run, { throttleMs: 100 });
+
+    scheduler.schedule();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    scheduler.schedule();
+    vi.advanceTimersByTime(50);
+    scheduler.schedule();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(50);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test("debounce with throttle: caps the wait", () => {
+    const run = vi.fn();
+    const scheduler = createScheduler(run, {
+      debounceMs: 100,
+      throttleMs: 250
+    });
+
+    for (let i = 0; i < 5; i++) {
+      scheduler.schedule();
+      vi.advanceTimersByTime(60);
+    }
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test("flush runs a pending call and cancel drops it", () => {
+    const run = vi.fn();
+    const scheduler = createScheduler(run, { debounceMs: 100 });
+
+    scheduler.flush();
+    expect(run).not.toHaveBeenCalled();
+
+    scheduler.schedule();
+    expect(scheduler.isPending()).toBe(true);
+    scheduler.flush();
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.isPending()).toBe(false);
+
+    scheduler.schedule();
+    scheduler.cancel();
+    expect(scheduler.isPending()).toBe(false);
+    vi.advanceTimersByTime(100);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Options for `createScheduler`.
+ */
+export interface SchedulerOptions {
+  /** Wait for this many milliseconds of inactivity before running. */
+  debounceMs?: number;
+  /** Run at most once per this many milliseconds. Caps the debounce wait when both are set. */
+  throttleMs?: number;
+}
+
+export interface Scheduler {
+  /** Request a run, delayed according to the options. */
+  schedule(): void;
+  /** Run now if a run is pending. */
+  flush(): void;
+  /** Drop the pending run. */
+  cancel(): void;
+  /** Whether a run is pending. */
+  isPending(): boolean;
+}
+
+/**
+ * Create a scheduler that debounces and/or throttles calls to `run`.
+ * Without options every scheduled call runs immediately.
+ */
+export function createScheduler(
+  run: () => void,
+  { debounceMs = 0, throttleMs = 0 }: SchedulerOptions = {}
+): Scheduler {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending = false;
+  let firstScheduledAt = 0;
+  let lastRunAt = -Infinity;
+
+  const clear = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const flush = () => {
+    clear();
+    if (!pending) return;
+
+    pending = false;
+    lastRunAt = Date.now();
+    run();
+  };
+
+  const schedule = () => {
+    const now = Date.now();
+    if (!pending) firstScheduledAt = now;
+    pending = true;
+
+    let wait = 0;
+    if (debounceMs > 0) {
+      wait = debounceMs;
+      if (throttleMs > 0)
+        wait = Math.min(wait, firstScheduledAt + throttleMs - now);
+    } else if (throttleMs > 0) {
+      wait = lastRunAt + throttleMs - now;
+    }
+
+    if (wait <= 0) {
+      flush();
+      return;
+    }
+
+    // Debouncing restarts the wait, throttling keeps the running timer
+    if (debounceMs > 0 || timer === undefined) {
+      clear();
+      timer = setTimeout(flush, wait);
+    }
+  };
+
+  const cancel = () => {
+    clear();
+    pending = false;
+  };
+
+  return { schedule, flush, cancel, isPending: () => pending };
+}
@@ -0,0 +1,82 @@
+import { Resolver } from "react-hook-form";
+import { dropInvalid, findIssues, StandardSchema } from "./schema";
+
+interface Values {
+  name: string;
+  age: number;
+  tags: string[];
+}
+
+const schema: StandardSchema = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const { name, age, tags } = value as Values;
+      const issues = [];
+      if (typeof name !== "string")
+        issues.push({ message: "Expected string", path: [{ key: "name" }] });
+      if (typeof age !== "number")
+        issues.push({ message: "Expected number", path: ["age"] });
+      tags.forEach((tag, i) => {
+        if (typeof tag !== "string")
+          issues.push({ message: "Expected string", path: ["tags", i] });
+      });
+      return issues.length ? { issues } : { value };
+    }
+  }
+};
+
+describe("findIssues", () => {
+  test("reads Standard Schema issues", () => {
+    expect(
+      findIssues<Values>(schema, {
+        name: "Alice",
+        age: "12" as unknown as number,
+        tags: ["a", 1 as unknown as string]
+      })
+    ).toEqual([
+      { path: "age", message: "Expected number" },
+      { path: "tags.1", message: "Expected string" }
+    ]);
+  });
+
+  test("reads resolver errors", async () => {
+    const resolver: Resolver<Values> = async () => ({
+      values: {},
+      errors: {
+        age: { type: "min", message: "Too young" },
+        tags: [undefined, { type: "type" }] as never
+      }
+    });
+
+    expect(
+      await findIssues(resolver, { name: "Alice", age: 1, tags: [] })
+    ).toEqual([
+      { path: "age", message: "Too young" },
+      { path: "tags.1", message: "type" }
+    ]);
+  });
+});
+
+describe("dropInvalid", () => {
+  test("drops the invalid fields the draft holds", () => {
+    expect(
+      dropInvalid<Values>({ age: "12" as unknown as number, tags: ["a"] }, [
+        { path: "age", message: "Expected number" },
+        { path: "name", message: "Required" }
+      ])
+    ).toEqual({
+      data: { tags: ["a"] },
+      dropped: [{ path: "age", message: "Expected number" }]
+    });
+  });
+
+  test("drops everything when the whole draft is invalid", () => {
+    expect(
+      dropInvalid<Values>({ name: "Alice" }, [
+        { path: "", message: "Expected object" }
+      ]).data
+    ).toEqual({});
+  });
+});
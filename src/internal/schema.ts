@@ -0,0 +1,98 @@
+import { FieldError, FieldValues, Resolver } from "react-hook-form";
+import { getIn, hasIn, omitIn } from "./deep-copy";
+import { chain, MaybePromise } from "./maybe-promise";
+import { errorPaths } from "./meta";
+
+interface StandardIssue {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+}
+
+type StandardResult =
+  | { readonly value: unknown; readonly issues?: undefined }
+  | { readonly issues: readonly StandardIssue[] };
+
+/**
+ * A validator implementing Standard Schema (https://standardschema.dev),
+ * e.g. a Zod, Valibot or ArkType schema.
+ */
+export interface StandardSchema {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => MaybePromise<StandardResult>;
+  };
+}
+
+/**
+ * Validates restored drafts: a Standard Schema or a react-hook-form resolver.
+ */
+export type DraftSchema<T extends FieldValues> = StandardSchema | Resolver<T>;
+
+/**
+ * A field that failed validation, and why.
+ */
+export interface SchemaIssue {
+  /** The path of the field, empty when the whole value is invalid. */
+  path: string;
+  message: string;
+}
+
+const segmentKey = (segment: PropertyKey | { readonly key: PropertyKey }) =>
+  String(typeof segment === "object" ? segment.key : segment);
+
+/**
+ * Validate values and list the fields that fail
+ */
+export function findIssues<T extends FieldValues>(
+  schema: DraftSchema<T>,
+  values: T
+): MaybePromise<SchemaIssue[]> {
+  if (typeof schema !== "function") {
+    return chain(schema["~standard"].validate(values), (result) =>
+      (result.issues ?? []).map(({ message, path = [] }) => ({
+        path: path.map(segmentKey).join("."),
+        message
+      }))
+    );
+  }
+
+  return chain(
+    schema(values, undefined, {
+      fields: {},
+      shouldUseNativeValidation: false,
+      criteriaMode: "firstError"
+    }),
+    ({ errors }) =>
+      errorPaths(errors).map((path) => {
+        const error: FieldError | undefined = getIn(
+          errors as FieldValues,
+          path
+        );
+        return { path, message: String(error?.message || error?.type) };
+      })
+  );
+}
+
+/**
+ * Remove the invalid fields from a draft.
+ * Issues of fields the draft does not hold are ignored.
+ */
+export function dropInvalid<T extends FieldValues>(
+  data: Partial<T>,
+  issues: readonly SchemaIssue[]
+): { data: Partial<T>; dropped: SchemaIssue[] } {
+  if (issues.some(({ path }) => !path))
+    return { data: {}, dropped: issues.filter(({ path }) => !path) };
+
+  const dropped = issues.filter(({ path }) => hasIn(data as FieldValues, path));
+  return {
+    data: dropped.length
+      ? omitIn(
+          data,
+          dropped.map(({ path }) => path)
+        )
+      : data,
+    dropped
+  };
+}
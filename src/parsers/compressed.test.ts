@@ -0,0 +1,41 @@
+import { DEFAULT_PARSER } from "./default";
+import { createCompressedParser } from "./compressed";
+
+const envelope = {
+  version: "1",
+  data: { notes: "lorem ipsum ".repeat(50), tags: ["a", "b"] }
+};
+
+describe("createCompressedParser", () => {
+  test("round-trips the versioned data in less space", () => {
+    const parser = createCompressedParser();
+
+    const compressed = parser.serialize(envelope) as string;
+
+    expect(compressed.startsWith("lz:")).toBe(true);
+    expect(compressed.length).toBeLessThan(
+      DEFAULT_PARSER.serialize(envelope).length / 2
+    );
+    expect(parser.deserialize(compressed)).toEqual(envelope);
+  });
+
+  test("reads data written before compression was enabled", () => {
+    const parser = createCompressedParser();
+
+    expect(parser.deserialize(JSON.stringify(envelope))).toEqual(envelope);
+  });
+
+  test("accepts a custom compressor", async () => {
+    const parser = createCompressedParser({
+      compressor: {
+        compress: async (data) => btoa(data),
+        decompress: async (data) => atob(data)
+      }
+    });
+
+    const compressed = await parser.serialize(envelope);
+
+    expect(compressed).toBe(`lz:${btoa(JSON.stringify(envelope))}`);
+    expect(await parser.deserialize(compressed)).toEqual(envelope);
+  });
+});
@@ -0,0 +1,65 @@
+import { FieldValues } from "react-hook-form";
+import { compress, decompress } from "../internal/lz";
+import { chain, MaybePromise } from "../internal/maybe-promise";
+import { DEFAULT_PARSER } from "./default";
+import { PersistParser, VersionedData } from "./types";
+
+const PREFIX = "lz:";
+
+/**
+ * Turns a string into a shorter one and back.
+ */
+export interface Compressor {
+  compress(data: string): MaybePromise<string>;
+  decompress(data: string): MaybePromise<string>;
+}
+
+/**
+ * Options for `createCompressedParser`.
+ *
+ * @template T - The shape of your form values (inferred from react-hook-form).
+ */
+export interface CompressedParserOptions<T extends FieldValues> {
+  /**
+   * The parser that produces the uncompressed text. Defaults to JSON.
+   */
+  parser?: PersistParser<T>;
+
+  /**
+   * The compression algorithm. Defaults to a built-in LZ compressor
+   * whose output is safe to store in localStorage.
+   * @example { compress: LZString.compressToUTF16, decompress: LZString.decompressFromUTF16 }
+   */
+  compressor?: Compressor;
+}
+
+/**
+ * Create a parser that compresses the versioned data before it is written.
+ * Data written before compression was enabled is still read.
+ *
+ * @example
+ * useFormPersist(form, {
+ *   key: "long-form",
+ *   parser: createCompressedParser()
+ * });
+ */
+export function createCompressedParser<T extends FieldValues>(
+  options: CompressedParserOptions<T> = {}
+): PersistParser<T> {
+  const { parser = DEFAULT_PARSER, compressor = { compress, decompress } } =
+    options;
+
+  return {
+    serialize: (data: VersionedData<T>) =>
+      chain(parser.serialize(data), (text) =>
+        chain(compressor.compress(text), (compressed) => PREFIX + compressed)
+      ),
+
+    deserialize: (data: string) =>
+      data.startsWith(PREFIX)
+        ? chain(compressor.decompress(data.slice(PREFIX.length)), (text) =>
+            parser.deserialize(text)
+          )
+        : parser.deserialize(data)
+  };
+}
@@ -0,0 +1,10 @@
+import { FieldValues } from "react-hook-form";
+import { VersionedData } from "./types";
+
+export const DEFAULT_PARSER = {
+  serialize: <T extends FieldValues>(data: VersionedData<T>) =>
+    JSON.stringify(data),
+
+  deserialize: <T extends FieldValues>(data: string): VersionedData<T> =>
+    JSON.parse(data) as VersionedData<T>
+};
@@ -0,0 +1,77 @@
+import { webcrypto } from "node:crypto";
+import { createEncryptedParser, DecryptionError } from "./encrypted";
+
+// Node 18 has no global `crypto`
+const crypto = webcrypto as unknown as Crypto;
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt"
+  ]);
+
+const envelope = { version: "1", data: { name: "John", ssn: "123-45-6789" } };
+
+describe("createEncryptedParser", () => {
+  test("round-trips the versioned data without leaking plaintext", async () => {
+    const parser = createEncryptedParser({ crypto, key: await generateKey() });
+
+    const encrypted = await parser.serialize(envelope);
+
+    expect(encrypted).not.toContain("John");
+    expect(encrypted).not.toContain("123-45-6789");
+    expect(await parser.deserialize(encrypted)).toEqual(envelope);
+  });
+
+  test("uses a fresh IV for every write", async () => {
+    const parser = createEncryptedParser({ crypto, key: await generateKey() });
+
+    expect(await parser.serialize(envelope)).not.toBe(
+      await parser.serialize(envelope)
+    );
+  });
+
+  test("accepts a key provider", async () => {
+    const key = await generateKey();
+    const provider = vi.fn(async () => key);
+    const parser = createEncryptedParser({ crypto, key: provider });
+
+    const encrypted = await parser.serialize(envelope);
+
+    expect(await parser.deserialize(encrypted)).toEqual(envelope);
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  test("rejects tampered payloads", async () => {
+    const parser = createEncryptedParser({ crypto, key: await generateKey() });
+    const encrypted = await parser.serialize(envelope);
+
+    const last = encrypted[encrypted.length - 5];
+    const tampered =
+      encrypted.slice(0, -5) + (last === "A" ? "B" : "A") + encrypted.slice(-4);
+
+    await expect(parser.deserialize(tampered)).rejects.toBeInstanceOf(
+      DecryptionError
+    );
+  });
+
+  test("rejects payloads encrypted with another key", async () => {
+    const encrypted = await createEncryptedParser({
+      crypto,
+      key: await generateKey()
+    }).serialize(envelope);
+    const parser = createEncryptedParser({ crypto, key: await generateKey() });
+
+    await expect(parser.deserialize(encrypted)).rejects.toBeInstanceOf(
+      DecryptionError
+    );
+  });
+
+  test("rejects plaintext payloads", async () => {
+    const parser = createEncryptedParser({ crypto, key: await generateKey() });
+
+    await expect(
+      parser.deserialize(JSON.stringify(envelope))
+    ).rejects.toBeInstanceOf(DecryptionError);
+  });
+});
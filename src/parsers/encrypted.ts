@@ -0,0 +1,112 @@
+import { FieldValues } from "react-hook-form";
+import { MaybePromise } from "../internal/maybe-promise";
+import { DEFAULT_PARSER } from "./default";
+import { PersistParser, VersionedData } from "./types";
+
+const PREFIX = "aes-gcm:";
+const IV_LENGTH = 12;
+
+/**
+ * Thrown when stored data cannot be decrypted:
+ * it was tampered with, encrypted with another key, or is not encrypted at all.
+ */
+export class DecryptionError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "DecryptionError";
+    if (options && "cause" in options) this.cause = options.cause;
+  }
+}
+
+/**
+ * Options for `createEncryptedParser`.
+ *
+ * @template T - The shape of your form values (inferred from react-hook-form).
+ */
+export interface EncryptedParserOptions<T extends FieldValues> {
+  /**
+   * An AES-GCM key, or a function returning one (e.g. fetched from your server).
+   * @example await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"])
+   */
+  key: CryptoKey | (() => MaybePromise<CryptoKey>);
+
+  /**
+   * The parser that produces the plaintext. Defaults to JSON.
+   */
+  parser?: PersistParser<T>;
+
+  /**
+   * The WebCrypto implementation. Defaults to the global `crypto`,
+   * available in browsers and Node 19+. On Node 18 pass `webcrypto` from "node:crypto".
+   */
+  crypto?: Crypto;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/**
+ * Create a parser that encrypts the versioned data with AES-GCM.
+ * Tampered or undecryptable payloads are rejected with a `DecryptionError`.
+ *
+ * @example
+ * useFormPersist(form, {
+ *   key: "kyc-form",
+ *   parser: createEncryptedParser({ key: () => getKeyFromServer() })
+ * });
+ */
+export function createEncryptedParser<T extends FieldValues>(
+  options: EncryptedParserOptions<T>
+): PersistParser<T> {
+  const {
+    key,
+    parser = DEFAULT_PARSER,
+    crypto: webCrypto = globalThis.crypto
+  } = options;
+
+  const resolveKey = async () => (typeof key === "function" ? key() : key);
+
+  return {
+    serialize: async (data: VersionedData<T>) => {
+      const plaintext = new TextEncoder().encode(await parser.serialize(data));
+      const iv = webCrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      const ciphertext = await webCrypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        await resolveKey(),
+        plaintext
+      );
+
+      return `${PREFIX}${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+    },
+
+    deserialize: async (data: string) => {
+      if (!data.startsWith(PREFIX))
+        throw new DecryptionError("Stored data is not encrypted");
+
+      const [iv, ciphertext] = data.slice(PREFIX.length).split(".");
+
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await webCrypto.subtle.decrypt(
+          { name: "AES-GCM", iv: fromBase64(iv) },
+          await resolveKey(),
+          fromBase64(ciphertext ?? "")
+        );
+      } catch (err) {
+        throw new DecryptionError("Failed to decrypt stored data", {
+          cause: err
+        });
+      }
+
+      return parser.deserialize(new TextDecoder().decode(plaintext));
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import { PersistParser } from "./types";
+import { Codec, createStructuredParser, STRUCTURED_PARSER } from "./structured";
+
+const toBigInt = (
+  globalThis as unknown as { BigInt: (value: string) => bigint }
+).BigInt;
+
+class Money {
+  constructor(
+    readonly amount: string,
+    readonly currency: string
+  ) {}
+}
+
+const moneyCodec: Codec<Money, { amount: string; currency: string }> = {
+  tag: "Money",
+  test: (value): value is Money => value instanceof Money,
+  encode: ({ amount, currency }) => ({ amount, currency }),
+  decode: ({ amount, currency }) => new Money(amount, currency)
+};
+
+const roundTrip = async (
+  data: Record<string, unknown>,
+  parser: PersistParser<Record<string, unknown>> = STRUCTURED_PARSER
+) =>
+  (await parser.deserialize(await parser.serialize({ version: "1", data })))
+    .data;
+
+describe("createStructuredParser", () => {
+  test("round-trips Date, Map, Set and BigInt values", async () => {
+    const data = {
+      birthday: new Date("2000-01-02T03:04:05.000Z"),
+      invalid: new Date(NaN),
+      scores: new Map([["math", new Date(0)]]),
+      tags: new Set(["a", "b"]),
+      balance: toBigInt("12345678901234567890"),
+      nested: [{ at: new Date(1000) }]
+    };
+
+    const restored = await roundTrip(data);
+
+    expect(restored).toEqual(data);
+    expect(restored.birthday).toBeInstanceOf(Date);
+    expect(restored.scores).toBeInstanceOf(Map);
+    expect(restored.tags).toBeInstanceOf(Set);
+    expect(typeof restored.balance).toBe("bigint");
+  });
+
+  test("keeps plain objects that look like tagged values", async () => {
+    const data = { meta: { __type: "Date", value: "not a date" } };
+
+    expect(await roundTrip(data)).toEqual(data);
+  });
+
+  test("logs unknown type tags with the logger", async () => {
+    const logger = { warn: vi.fn() };
+    const parser = createStructuredParser({ logger });
+
+    const restored = await parser.deserialize(
+      JSON.stringify({ version: "1", data: { __type: "Money", value: 1 } })
+    );
+
+    expect(restored.data).toEqual({ __type: "Money", value: 1 });
+    expect(logger.warn).toHaveBeenCalledWith("Unknown type tag: Money");
+  });
+
+  test("supports custom codecs", async () => {
+    const parser = createStructuredParser({ codecs: [moneyCodec] });
+    const data = { price: new Money("9.99", "EUR") };
+
+    const restored = await roundTrip(data, parser);
+
+    expect(restored.price).toBeInstanceOf(Money);
+    expect(restored).toEqual(data);
+  });
+
+  test("persists file metadata without a blob store", async () => {
+    const file = new File(["hello"], "hello.txt", {
+      type: "text/plain",
+      lastModified: 1000
+    });
+
+    const restored = await roundTrip({ file });
+
+    expect(restored.file).toEqual({
+      name: "hello.txt",
+      size: 5,
+      type: "text/plain",
+      lastModified: 1000
+    });
+  });
+
+  test("restores file contents from a blob store", async () => {
+    const blobs = new Map<string, Blob>();
+    const blobStore = {
+      put: vi.fn(async (id: string, blob: Blob) => {
+        blobs.set(id, blob);
+      }),
+      get: async (id: string) => blobs.get(id)
+    };
+    const parser = createStructuredParser({ blobStore });
+    const file = new File(["hello"], "hello.txt", { type: "text/plain" });
+
+    await parser.serialize({ version: "1", data: { file } });
+    const restored = await roundTrip({ file }, parser);
+
+    expect(blobStore.put).toHaveBeenCalledTimes(1);
+    expect(restored.file).toBeInstanceOf(File);
+    expect((restored.file as File).name).toBe("hello.txt");
+    expect((restored.file as File).size).toBe(5);
+  });
+});
@@ -0,0 +1,271 @@
+import { FieldValues } from "react-hook-form";
+import { isPlainObject } from "../internal/merge";
+import { MaybePromise } from "../internal/maybe-promise";
+import { PersistLogger } from "../core";
+import { PersistParser, VersionedData } from "./types";
+
+const TYPE = "__type";
+const ESCAPED_OBJECT = "__object";
+
+/**
+ * Encodes values of one type to JSON-compatible values and back.
+ * Values returned by `encode` are encoded again, so they may contain other
+ * supported types (e.g. a Map of Dates), and `decode` receives them decoded.
+ *
+ * @example
+ * const moneyCodec: Codec<Money, { amount: string; currency: string }> = {
+ *   tag: "Money",
+ *   test: (value): value is Money => value instanceof Money,
+ *   encode: (money) => ({ amount: money.amount, currency: money.currency }),
+ *   decode: ({ amount, currency }) => new Money(amount, currency)
+ * };
+ */
+export interface Codec<V = unknown, E = unknown> {
+  /** A unique name stored with encoded values. */
+  tag: string;
+  test(value: unknown): value is V;
+  encode(value: V): E;
+  decode(encoded: E): V;
+}
+
+/**
+ * Stores the content of persisted files.
+ */
+export interface BlobStore {
+  put: (id: string, blob: Blob) => MaybePromise<void>;
+  get: (id: string) => MaybePromise<Blob | null | undefined>;
+}
+
+/**
+ * What is restored for a `File` whose content is not available.
+ */
+export interface PersistedFile {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
+interface EncodedFile extends PersistedFile {
+  blobId?: string;
+}
+
+/**
+ * Options for `createStructuredParser`.
+ */
+export interface StructuredParserOptions {
+  /** Codecs for your own types. They take precedence over the built-in ones. */
+  codecs?: Codec[];
+
+  /**
+   * Where to keep file contents. Without it only file metadata is persisted
+   * and files are restored as `PersistedFile` objects.
+   */
+  blobStore?: BlobStore;
+
+  /** Log unknown type tags with `logger.warn` instead of `console.warn`. */
+  logger?: Pick<PersistLogger, "warn">;
+}
+
+const toBigInt = (
+  globalThis as unknown as { BigInt: (value: string) => bigint }
+).BigInt;
+
+const dateCodec: Codec<Date, string | null> = {
+  tag: "Date",
+  test: (value): value is Date => value instanceof Date,
+  encode: (date) => (isNaN(date.getTime()) ? null : date.toISOString()),
+  decode: (encoded) => new Date(encoded ?? NaN)
+};
+
+const mapCodec: Codec<Map<unknown, unknown>, [unknown, unknown][]> = {
+  tag: "Map",
+  test: (value): value is Map<unknown, unknown> => value instanceof Map,
+  encode: (map) => Array.from(map),
+  decode: (entries) => new Map(entries)
+};
+
+const setCodec: Codec<Set<unknown>, unknown[]> = {
+  tag: "Set",
+  test: (value): value is Set<unknown> => value instanceof Set,
+  encode: (set) => Array.from(set),
+  decode: (values) => new Set(values)
+};
+
+const bigIntCodec: Codec<bigint, string> = {
+  tag: "BigInt",
+  test: (value): value is bigint => typeof value === "bigint",
+  encode: (value) => value.toString(),
+  decode: (encoded) => toBigInt(encoded)
+};
+
+const fileListCodec: Codec<FileList, File[]> = {
+  tag: "FileList",
+  test: (value): value is FileList =>
+    typeof FileList !== "undefined" && value instanceof FileList,
+  encode: (list) => Array.from(list),
+  // A FileList cannot be constructed, restore the files as an array
+  decode: (files) => files as unknown as FileList
+};
+
+const BUILT_IN_CODECS = [
+  dateCodec,
+  mapCodec,
+  setCodec,
+  bigIntCodec,
+  fileListCodec
+] as Codec[];
+
+const isFile = (value: unknown): value is File =>
+  typeof File !== "undefined" && value instanceof File;
+
+/**
+ * Create a parser that keeps Date, Map, Set, BigInt and File values intact
+ * by storing them with a type tag. Add your own types with `codecs`.
+ *
+ * @example
+ * useFormPersist(form, {
+ *   key: "form-data",
+ *   parser: createStructuredParser({ codecs: [moneyCodec] })
+ * });
+ */
+export function createStructuredParser<T extends FieldValues>(
+  options: StructuredParserOptions = {}
+): PersistParser<T> {
+  const { codecs = [], blobStore, logger = console } = options;
+  const allCodecs = [...codecs, ...BUILT_IN_CODECS];
+  const codecsByTag = new Map(
+    [...allCodecs].reverse().map((codec) => [codec.tag, codec])
+  );
+  const blobIds = new WeakMap<File, string>();
+  let nextBlobId = 0;
+
+  const encodeFile = (file: File, pending: MaybePromise<void>[]) => {
+    const encoded: EncodedFile = {
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      lastModified: file.lastModified
+    };
+
+    if (blobStore) {
+      let blobId = blobIds.get(file);
+      if (!blobId) {
+        blobId = `${Date.now().toString(36)}-${(nextBlobId++).toString(36)}`;
+        blobIds.set(file, blobId);
+        pending.push(blobStore.put(blobId, file));
+      }
+      encoded.blobId = blobId;
+    }
+    return encoded;
+  };
+
+  const encode = (value: unknown, pending: MaybePromise<void>[]): unknown => {
+    if (isFile(value))
+      return { [TYPE]: "File", value: encodeFile(value, pending) };
+
+    const codec = allCodecs.find((candidate) => candidate.test(value));
+    if (codec)
+      return { [TYPE]: codec.tag, value: encode(codec.encode(value), pending) };
+
+    if (Array.isArray(value)) return value.map((item) => encode(item, pending));
+
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value))
+        result[key] = encode(item, pending);
+
+      // Keep objects that look like tagged values from being decoded as such
+      return TYPE in value ? { [TYPE]: ESCAPED_OBJECT, value: result } : result;
+    }
+
+    return value;
+  };
+
+  const decode = (value: unknown, blobs: Map<string, Blob>): unknown => {
+    if (Array.isArray(value)) return value.map((item) => decode(item, blobs));
+    if (!isPlainObject(value)) return value;
+
+    const tag = value[TYPE];
+    const decodeEntries = (entries: Record<string, unknown>) => {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(entries))
+        result[key] = decode(item, blobs);
+      return result;
+    };
+
+    if (typeof tag !== "string") return decodeEntries(value);
+    if (tag === ESCAPED_OBJECT)
+      return decodeEntries(value.value as Record<string, unknown>);
+
+    if (tag === "File") {
+      const { blobId, ...metadata } = value.value as EncodedFile;
+      const blob = blobId ? blobs.get(blobId) : undefined;
+      return blob
+        ? new File([blob], metadata.name, {
+            type: metadata.type,
+            lastModified: metadata.lastModified
+          })
+        : (metadata as PersistedFile);
+    }
+
+    const codec = codecsByTag.get(tag);
+    if (!codec) {
+      logger.warn(`Unknown type tag: ${tag}`);
+      return decodeEntries(value);
+    }
+    return codec.decode(decode(value.value, blobs));
+  };
+
+  const collectBlobIds = (value: unknown, ids: Set<string>) => {
+    if (Array.isArray(value)) {
+      for (const item of value) collectBlobIds(item, ids);
+    } else if (isPlainObject(value)) {
+      if (value[TYPE] === "File") {
+        const { blobId } = value.value as EncodedFile;
+        if (blobId) ids.add(blobId);
+        return;
+      }
+      for (const item of Object.values(value)) collectBlobIds(item, ids);
+    }
+  };
+
+  return {
+    serialize: (data: VersionedData<T>) => {
+      const pending: MaybePromise<void>[] = [];
+      const raw = JSON.stringify(encode(data, pending));
+
+      return pending.length ? Promise.all(pending).then(() => raw) : raw;
+    },
+
+    deserialize: (raw: string) => {
+      const parsed: unknown = JSON.parse(raw);
+
+      const ids = new Set<string>();
+      if (blobStore) collectBlobIds(parsed, ids);
+      if (!blobStore || !ids.size)
+        return decode(parsed, new Map()) as VersionedData<T>;
+
+      return Promise.all(
+        Array.from(ids, async (id) => [id, await blobStore.get(id)] as const)
+      ).then((entries) => {
+        const blobs = new Map<string, Blob>();
+        for (const [id, blob] of entries) if (blob) blobs.set(id, blob);
+        return decode(parsed, blobs) as VersionedData<T>;
+      });
+    }
+  };
+}
+
+const structuredParser = createStructuredParser();
+
+/**
+ * A parser that keeps Date, Map, Set, BigInt and File metadata intact.
+ */
+export const STRUCTURED_PARSER = {
+  serialize: <T extends FieldValues>(data: VersionedData<T>) =>
+    structuredParser.serialize(data),
+
+  deserialize: <T extends FieldValues>(data: string) =>
+    structuredParser.deserialize(data) as MaybePromise<VersionedData<T>>
+};
@@ -0,0 +1,54 @@
+import { FieldValues } from "react-hook-form";
+import { MaybePromise } from "../internal/maybe-promise";
+
+export type Version = string;
+
+/**
+ * Wraps the form data with version information.
+ *
+ * @template T - The shape of your form values (inferred from react-hook-form).
+ */
+export interface VersionedData<T extends FieldValues> {
+  version: Version;
+  data: Partial<T>;
+  /** When the data was saved, in milliseconds since the epoch. */
+  savedAt?: number;
+  /** When the data expires, in milliseconds since the epoch. */
+  expiresAt?: number;
+  /** Undo and redo snapshots, oldest first. */
+  history?: {
+    past: Partial<T>[];
+    future: Partial<T>[];
+  };
+  /** Form state saved with `persistMeta`. */
+  meta?: PersistedMeta;
+}
+
+/**
+ * Form state saved alongside the values.
+ */
+export interface PersistedMeta {
+  /** Paths of the dirty fields. */
+  dirty?: string[];
+  /** Paths of the touched fields. */
+  touched?: string[];
+  /** Paths of the fields with validation errors, validated again on restore. */
+  errors?: string[];
+  /** The field that had focus, and its caret position. */
+  focus?: {
+    name: string;
+    selectionStart?: number;
+    selectionEnd?: number;
+  };
+}
+
+/**
+ * Serializes the versioned data to a string and back.
+ * Both directions may be asynchronous.
+ *
+ * @template T - The shape of your form values (inferred from react-hook-form).
+ */
+export interface PersistParser<T extends FieldValues> {
+  serialize: (data: VersionedData<T>) => MaybePromise<string>;
+  deserialize: (data: string) => MaybePromise<VersionedData<T>>;
+}
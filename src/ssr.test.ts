@@ -0,0 +1,43 @@
+// @vitest-environment node
+import { getPersistedDefaults } from "./ssr";
+
+const cookie = (name: string, value: unknown) =>
+  `${name}=${encodeURIComponent(JSON.stringify(value))}`;
+
+describe("getPersistedDefaults", () => {
+  test("reads the draft from a Cookie header", async () => {
+    const header = `theme=dark; ${cookie("checkout", {
+      version: "1",
+      data: { email: "alice@example.com" }
+    })}`;
+
+    expect(await getPersistedDefaults("checkout", header)).toEqual({
+      email: "alice@example.com"
+    });
+  });
+
+  test("migrates drafts of older versions", async () => {
+    const header = cookie("checkout", {
+      version: "1",
+      data: { mail: "alice@example.com" }
+    });
+
+    expect(
+      await getPersistedDefaults("checkout", header, {
+        version: "2",
+        migrations: { "1->2": ({ mail }) => ({ email: mail }) }
+      })
+    ).toEqual({ email: "alice@example.com" });
+  });
+
+  test("resolves to undefined without a usable draft", async () => {
+    const expired = cookie("checkout", {
+      version: "1",
+      expiresAt: 1,
+      data: { email: "alice@example.com" }
+    });
+
+    expect(await getPersistedDefaults("checkout", undefined)).toBeUndefined();
+    expect(await getPersistedDefaults("checkout", expired)).toBeUndefined();
+  });
+});
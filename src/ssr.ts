@@ -0,0 +1,41 @@
+import { FieldValues } from "react-hook-form";
+import { createFormPersister, FormPersisterOptions } from "./core";
+import { createCookieStorage } from "./storage/cookie";
+
+/**
+ * Options for `getPersistedDefaults`.
+ * Should match the options of the form, so the draft is read the same way.
+ *
+ * @template T - The shape of your form values.
+ */
+export type PersistedDefaultsOptions<T extends FieldValues> = Omit<
+  FormPersisterOptions<T>,
+  "key" | "storage"
+>;
+
+/**
+ * Read a draft persisted with `createCookieStorage` from a `Cookie` header,
+ * to seed the `defaultValues` of a server-rendered form.
+ * Resolves to `undefined` when there is no usable draft.
+ *
+ * @example
+ * // On the server
+ * const draft = await getPersistedDefaults<Checkout>("checkout", req.headers.cookie);
+ *
+ * // In the form, rendered on the server and then hydrated
+ * const form = useForm({ defaultValues: { ...emptyCheckout, ...draft } });
+ * useFormPersist(form, { key: "checkout", ssr: true });
+ */
+export async function getPersistedDefaults<T extends FieldValues>(
+  key: string,
+  cookieHeader: string | null | undefined,
+  options: PersistedDefaultsOptions<T> = {}
+): Promise<Partial<T> | undefined> {
+  const persister = createFormPersister<T>({
+    ...options,
+    key,
+    storage: createCookieStorage({ cookies: cookieHeader ?? "" })
+  });
+
+  return (await persister.load())?.data;
+}
@@ -0,0 +1,52 @@
+import { createCookieStorage, parseCookies } from "./cookie";
+
+const clearCookies = () => {
+  for (const name of Object.keys(parseCookies(document.cookie)))
+    document.cookie = `${encodeURIComponent(name)}=; path=/; max-age=0`;
+};
+
+describe("createCookieStorage", () => {
+  afterEach(clearCookies);
+
+  test("reads, writes and removes cookies", () => {
+    const storage = createCookieStorage();
+
+    expect(storage.getItem("form")).toBeNull();
+
+    storage.setItem("form", '{"name":"Alice; Bob"}');
+    expect(storage.getItem("form")).toBe('{"name":"Alice; Bob"}');
+
+    storage.removeItem("form");
+    expect(storage.getItem("form")).toBeNull();
+  });
+
+  test("reads a Cookie header and ignores writes", () => {
+    const storage = createCookieStorage({
+      cookies: "theme=dark; form=%7B%22a%22%3A1%7D"
+    });
+
+    storage.setItem("form", "changed");
+
+    expect(storage.getItem("form")).toBe('{"a":1}');
+    expect(storage.keys?.()).toEqual(["theme", "form"]);
+    expect(document.cookie).toBe("");
+  });
+
+  test("rejects values larger than a cookie can hold", () => {
+    const storage = createCookieStorage();
+
+    expect(() => storage.setItem("form", "x".repeat(5000))).toThrow(
+      expect.objectContaining({ name: "QuotaExceededError" })
+    );
+  });
+});
+
+describe("parseCookies", () => {
+  test("decodes names and values and keeps the first duplicate", () => {
+    expect(parseCookies("a=1; b=%20x%20; a=2; broken; c=%E0%A4%A")).toEqual({
+      a: "1",
+      b: " x ",
+      c: "%E0%A4%A"
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { QuotaExceededError } from "./quota";
+import { PersistStorage } from "./types";
+
+// Browsers drop cookies larger than this, name and attributes included
+const MAX_COOKIE_BYTES = 4096;
+
+/**
+ * Options for `createCookieStorage`.
+ */
+export interface CookieStorageOptions {
+  /**
+   * A `Cookie` header to read from instead of `document.cookie`, e.g. on the server.
+   * Writes are ignored when set.
+   */
+  cookies?: string;
+
+  /** Defaults to "/". */
+  path?: string;
+  domain?: string;
+
+  /** The cookie lifetime in seconds. Defaults to a session cookie. */
+  maxAge?: number;
+
+  /** Defaults to "lax". */
+  sameSite?: "lax" | "strict" | "none";
+
+  /** Defaults to true when `sameSite` is "none". */
+  secure?: boolean;
+}
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parse a `Cookie` header (or `document.cookie`) into names and values
+ */
+export function parseCookies(header: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index < 0) continue;
+
+    const name = decode(pair.slice(0, index).trim());
+    if (name && !(name in cookies))
+      cookies[name] = decode(pair.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+/**
+ * Create a storage backed by cookies, so drafts can be read on the server
+ * to prefill server-rendered forms (see `getPersistedDefaults`).
+ * Drafts larger than a cookie can hold are rejected with a `QuotaExceededError`.
+ *
+ * @example
+ * useFormPersist(form, {
+ *   key: "checkout",
+ *   storage: createCookieStorage({ maxAge: 60 * 60 * 24 })
+ * });
+ */
+export function createCookieStorage(
+  options: CookieStorageOptions = {}
+): PersistStorage {
+  const {
+    cookies,
+    path = "/",
+    domain,
+    maxAge,
+    sameSite = "lax",
+    secure = sameSite === "none"
+  } = options;
+
+  const canWrite = () =>
+    cookies === undefined && typeof document !== "undefined";
+
+  const write = (key: string, value: string, lifetime?: number) => {
+    let cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; path=${path}; samesite=${sameSite}`;
+    if (domain) cookie += `; domain=${domain}`;
+    if (lifetime !== undefined) cookie += `; max-age=${lifetime}`;
+    if (secure) cookie += "; secure";
+
+    if (cookie.length > MAX_COOKIE_BYTES)
+      throw new QuotaExceededError(
+        `Cookie ${key} is larger than ${MAX_COOKIE_BYTES} bytes`
+      );
+    document.cookie = cookie;
+  };
+
+  const read = () =>
+    parseCookies(
+      cookies ?? (typeof document !== "undefined" ? document.cookie : "")
+    );
+
+  return {
+    getItem: (key) => read()[key] ?? null,
+
+    setItem: (key, value) => {
+      if (canWrite()) write(key, value, maxAge);
+    },
+
+    removeItem: (key) => {
+      if (canWrite()) write(key, "", 0);
+    },
+
+    keys: () => Object.keys(read())
+  };
+}
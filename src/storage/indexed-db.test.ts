@@ -0,0 +1,56 @@
+import { IDBFactory } from "fake-indexeddb";
+import { createIndexedDBStorage } from "./indexed-db";
+
+describe("createIndexedDBStorage", () => {
+  test("reads, writes and removes items", async () => {
+    const storage = createIndexedDBStorage({ indexedDB: new IDBFactory() });
+
+    expect(await storage.getItem("form")).toBeNull();
+
+    await storage.setItem("form", "value");
+    expect(await storage.getItem("form")).toBe("value");
+
+    await storage.setItem("form", "updated");
+    expect(await storage.getItem("form")).toBe("updated");
+
+    await storage.removeItem("form");
+    expect(await storage.getItem("form")).toBeNull();
+  });
+
+  test("keeps data across storage instances sharing a database", async () => {
+    const factory = new IDBFactory();
+
+    await createIndexedDBStorage({ indexedDB: factory }).setItem("form", "v");
+
+    const storage = createIndexedDBStorage({ indexedDB: factory });
+    expect(await storage.getItem("form")).toBe("v");
+  });
+
+  test("isolates object stores by name", async () => {
+    const factory = new IDBFactory();
+    const drafts = createIndexedDBStorage({
+      indexedDB: factory,
+      storeName: "a"
+    });
+    const other = createIndexedDBStorage({
+      indexedDB: factory,
+      storeName: "b"
+    });
+
+    await drafts.setItem("form", "v");
+    expect(await other.getItem("form")).toBeNull();
+
+    await other.setItem("form", "w");
+    expect(await drafts.getItem("form")).toBe("v");
+  });
+
+  test("lists the stored keys", async () => {
+    const storage = createIndexedDBStorage({ indexedDB: new IDBFactory() });
+
+    expect(await storage.keys?.()).toEqual([]);
+
+    await storage.setItem("order-2", "b");
+    await storage.setItem("order-1", "a");
+    expect(await storage.keys?.()).toEqual(["order-1", "order-2"]);
+  });
+});
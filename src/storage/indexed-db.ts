@@ -0,0 +1,95 @@
+import { PersistStorage } from "./types";
+
+/**
+ * Options for `createIndexedDBStorage`.
+ */
+export interface IndexedDBStorageOptions {
+  /** Defaults to "use-react-hook-form-persist". */
+  dbName?: string;
+  /** Defaults to "drafts". */
+  storeName?: string;
+  /** The IndexedDB factory to use. Defaults to the global `indexedDB`. */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Create a storage backed by IndexedDB.
+ * The database is opened lazily on first access.
+ *
+ * @example
+ * const storage = createIndexedDBStorage({ dbName: "my-app" });
+ * useFormPersist(form, { key: "form-data", storage });
+ */
+export function createIndexedDBStorage(
+  options: IndexedDBStorageOptions = {}
+): PersistStorage {
+  const {
+    dbName = "use-react-hook-form-persist",
+    storeName = "drafts",
+    indexedDB: factory = globalThis.indexedDB
+  } = options;
+
+  let database: Promise<IDBDatabase> | undefined;
+
+  const connect = (version?: number) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(dbName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName))
+          request.result.createObjectStore(storeName);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let other connections upgrade the database, reconnect on next access
+        db.onversionchange = () => {
+          db.close();
+          database = undefined;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+  const open = () => {
+    if (!database) {
+      database = connect().then((db) => {
+        if (db.objectStoreNames.contains(storeName)) return db;
+
+        // The database exists without our store: bump the version to add it
+        db.close();
+        return connect(db.version + 1);
+      });
+    }
+    return database;
+  };
+
+  const run = <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ) =>
+    open().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const transaction = db.transaction(storeName, mode);
+          const request = operation(transaction.objectStore(storeName));
+          transaction.oncomplete = () => resolve(request.result);
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        })
+    );
+
+  return {
+    getItem: (key) =>
+      run("readonly", (store) => store.get(key)).then((value) =>
+        typeof value === "string" ? value : null
+      ),
+    setItem: (key, value) =>
+      run("readwrite", (store) => store.put(value, key)).then(() => undefined),
+    removeItem: (key) =>
+      run("readwrite", (store) => store.delete(key)).then(() => undefined),
+    keys: () =>
+      run("readonly", (store) => store.getAllKeys()).then((keys) =>
+        keys.filter((key): key is string => typeof key === "string")
+      )
+  };
+}
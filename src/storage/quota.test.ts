@@ -0,0 +1,94 @@
+import { INDEX_KEY, isQuotaError, writeWithinBudget } from "./quota";
+import { PersistStorage } from "./types";
+
+// A storage that throws like localStorage once `capacity` characters are used
+class LimitedStorage implements PersistStorage {
+  readonly data = new Map<string, string>();
+
+  constructor(private readonly capacity: number) {}
+
+  getItem(key: string) {
+    return this.data.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    let used = value.length;
+    for (const [other, stored] of this.data)
+      if (other !== key) used += stored.length;
+
+    if (used > this.capacity)
+      throw new DOMException(
+        "The quota has been exceeded.",
+        "QuotaExceededError"
+      );
+    this.data.set(key, value);
+  }
+
+  removeItem(key: string) {
+    this.data.delete(key);
+  }
+}
+
+describe("writeWithinBudget", () => {
+  test("records writes in the index", () => {
+    const storage = new LimitedStorage(Infinity);
+
+    writeWithinBudget(storage, "a", "1234", { savedAt: 1 });
+
+    expect(storage.getItem("a")).toBe("1234");
+    expect(JSON.parse(storage.getItem(INDEX_KEY)!)).toEqual({
+      a: { savedAt: 1, bytes: 8 }
+    });
+  });
+
+  test("evicts the least recently saved drafts to stay within maxBytes", () => {
+    const storage = new LimitedStorage(Infinity);
+    const options = { maxBytes: 20, evict: true };
+
+    writeWithinBudget(storage, "a", "aaaa", { ...options, savedAt: 2 });
+    writeWithinBudget(storage, "b", "bbbb", { ...options, savedAt: 1 });
+    writeWithinBudget(storage, "c", "cccc", { ...options, savedAt: 3 });
+
+    expect(storage.getItem("b")).toBeNull();
+    expect(storage.getItem("a")).toBe("aaaa");
+    expect(storage.getItem("c")).toBe("cccc");
+  });
+
+  test("evicts older drafts when the storage is full", () => {
+    const storage = new LimitedStorage(80);
+
+    writeWithinBudget(storage, "a", "a".repeat(30), {
+      savedAt: 1,
+      evict: true
+    });
+    writeWithinBudget(storage, "b", "b".repeat(30), {
+      savedAt: 2,
+      evict: true
+    });
+
+    expect(storage.getItem("a")).toBeNull();
+    expect(storage.getItem("b")).toBe("b".repeat(30));
+  });
+
+  test("throws a quota error when the draft cannot fit", () => {
+    const storage = new LimitedStorage(Infinity);
+
+    writeWithinBudget(storage, "a", "aaaa", { savedAt: 1 });
+
+    expect(() =>
+      writeWithinBudget(storage, "b", "b".repeat(20), {
+        maxBytes: 20,
+        savedAt: 2
+      })
+    ).toThrow(expect.objectContaining({ name: "QuotaExceededError" }));
+
+    let error: unknown;
+    try {
+      writeWithinBudget(storage, "b", "bbbbbbbb", { maxBytes: 20, savedAt: 2 });
+    } catch (err) {
+      error = err;
+    }
+    expect(isQuotaError(error)).toBe(true);
+    expect(storage.getItem("a")).toBe("aaaa");
+  });
+});
@@ -0,0 +1,151 @@
+import { attempt, chain, MaybePromise } from "../internal/maybe-promise";
+import { PersistStorage } from "./types";
+
+/**
+ * Where the drafts written with a budget or eviction are recorded.
+ */
+export const INDEX_KEY = "use-react-hook-form-persist:index";
+
+interface IndexEntry {
+  savedAt: number;
+  bytes: number;
+}
+
+type Index = Record<string, IndexEntry>;
+
+/**
+ * Thrown when a draft does not fit in `maxBytes`,
+ * even after evicting older drafts.
+ */
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Check whether an error means the storage is full
+ */
+export function isQuotaError(error: unknown): boolean {
+  const name = (error as { name?: unknown } | null)?.name;
+  // Firefox reports NS_ERROR_DOM_QUOTA_REACHED
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED";
+}
+
+/**
+ * The size of a string in bytes, counted as UTF-16 like browsers
+ * count localStorage usage.
+ */
+export const byteLength = (value: string) => value.length * 2;
+
+const readIndex = (storage: PersistStorage): MaybePromise<Index> =>
+  attempt(
+    () =>
+      chain(storage.getItem(INDEX_KEY), (raw) =>
+        raw ? (JSON.parse(raw) as Index) : {}
+      ),
+    () => ({})
+  );
+
+const writeIndex = (storage: PersistStorage, index: Index) =>
+  storage.setItem(INDEX_KEY, JSON.stringify(index));
+
+export interface BudgetOptions {
+  /** The maximum total size of the recorded drafts. */
+  maxBytes?: number;
+  /** Remove the least recently saved drafts to make room. */
+  evict?: boolean;
+  /** When the draft was saved. */
+  savedAt: number;
+}
+
+/**
+ * Write a draft and record it in the index, keeping the recorded drafts
+ * within `maxBytes`. With `evict`, the least recently saved drafts are
+ * removed when the draft does not fit or the storage is full.
+ */
+export function writeWithinBudget(
+  storage: PersistStorage,
+  key: string,
+  raw: string,
+  { maxBytes, evict = false, savedAt }: BudgetOptions
+): MaybePromise<void> {
+  const bytes = byteLength(raw);
+  if (maxBytes !== undefined && bytes > maxBytes)
+    throw new QuotaExceededError(
+      `Draft of ${bytes} bytes exceeds maxBytes (${maxBytes})`
+    );
+
+  return chain(readIndex(storage), (index) => {
+    const others = () =>
+      Object.keys(index)
+        .filter((other) => other !== key)
+        .sort((a, b) => index[a].savedAt - index[b].savedAt);
+
+    const evictOldest = (): MaybePromise<boolean> => {
+      const [oldest] = others();
+      if (!evict || oldest === undefined) return false;
+
+      delete index[oldest];
+      return chain(storage.removeItem(oldest), () => true);
+    };
+
+    const fit = (): MaybePromise<void> => {
+      if (maxBytes === undefined) return;
+
+      const total = others().reduce(
+        (sum, other) => sum + index[other].bytes,
+        0
+      );
+      if (total + bytes <= maxBytes) return;
+
+      return chain(evictOldest(), (evicted) => {
+        if (!evicted)
+          throw new QuotaExceededError(
+            `Drafts exceed maxBytes (${maxBytes}), nothing left to evict`
+          );
+        return fit();
+      });
+    };
+
+    // Values are computed on every attempt: evictions change the index
+    const put = (target: string, value: () => string): MaybePromise<void> =>
+      attempt(
+        () => storage.setItem(target, value()),
+        (err) => {
+          if (!isQuotaError(err)) throw err;
+
+          return chain(evictOldest(), (evicted) => {
+            if (!evicted) throw err;
+            return put(target, value);
+          });
+        }
+      );
+
+    return chain(fit(), () =>
+      chain(
+        put(key, () => raw),
+        () => {
+          index[key] = { savedAt, bytes };
+          return put(INDEX_KEY, () => JSON.stringify(index));
+        }
+      )
+    );
+  });
+}
+
+/**
+ * Remove a draft from the index
+ */
+export function forgetDraft(
+  storage: PersistStorage,
+  key: string
+): MaybePromise<void> {
+  return chain(readIndex(storage), (index) => {
+    if (!(key in index)) return;
+
+    delete index[key];
+    return writeIndex(storage, index);
+  });
+}
@@ -0,0 +1,14 @@
+import { MaybePromise } from "../internal/maybe-promise";
+
+/**
+ * A storage backend for persisted forms.
+ * Both synchronous (localStorage, sessionStorage) and promise based
+ * (IndexedDB, AsyncStorage, localForage) stores are supported.
+ */
+export interface PersistStorage {
+  getItem(key: string): MaybePromise<string | null>;
+  setItem(key: string, value: string): MaybePromise<void>;
+  removeItem(key: string): MaybePromise<void>;
+  /** List the stored keys, for `listDrafts`. Not needed for Web Storage, which is enumerable. */
+  keys?(): MaybePromise<string[]>;
+}
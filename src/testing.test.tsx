@@ -0,0 +1,111 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { useForm } from 'react-hook-form';
+import { STRUCTURED_PARSER, useFormPersist } from './index';
+import type { PersistStorage } from './index';
+import { advanceSaves, MemoryStorage, readDraft, seedDraft } from './testing';
+
+function NameForm({ storage }: { storage: PersistStorage }) {
+  const form = useForm({ defaultValues: { name: '' } });
+  const persisted = useFormPersist(form, {
+    key: 'name-form',
+    storage,
+    debounceMs: 500,
+  });
+
+  return <input aria-label="name" {...persisted.register('name')} />;
+}
+
+describe('MemoryStorage', () => {
+  test('stores items and records the calls', () => {
+    const storage = new MemoryStorage({ seeded: 'yes' });
+
+    storage.setItem('form', 'a');
+    storage.setItem('form', 'b');
+    expect(storage.getItem('form')).toBe('b');
+    expect(storage.key(1)).toBe('form');
+    expect(storage.keys()).toEqual(['seeded', 'form']);
+    storage.removeItem('seeded');
+    storage.clear();
+
+    expect(storage.length).toBe(0);
+    expect(storage.writesTo('form')).toEqual(['a', 'b']);
+    expect(storage.operations).toEqual([
+      { type: 'setItem', key: 'form', value: 'a' },
+      { type: 'setItem', key: 'form', value: 'b' },
+      { type: 'getItem', key: 'form' },
+      { type: 'removeItem', key: 'seeded' },
+      { type: 'clear' },
+    ]);
+  });
+});
+
+describe('seedDraft and readDraft', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test('write and read drafts like the hook', async () => {
+    await seedDraft('name-form', { name: 'Alice' }, '1', { savedAt: 1 });
+
+    expect(await readDraft('name-form')).toEqual({
+      version: '1',
+      data: { name: 'Alice' },
+      savedAt: 1,
+    });
+    expect(await readDraft('missing')).toBeUndefined();
+
+    render(<NameForm storage={localStorage} />);
+    expect(await screen.findByDisplayValue('Alice')).toBeInTheDocument();
+  });
+
+  test('use the parser of the form', async () => {
+    const storage = new MemoryStorage();
+    const parser = STRUCTURED_PARSER;
+    const born = new Date(0);
+
+    await seedDraft('person', { born }, '2', { storage, parser });
+
+    expect(await readDraft('person', { storage, parser })).toMatchObject({
+      version: '2',
+      data: { born },
+    });
+  });
+});
+
+describe('advanceSaves', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('runs debounced saves with fake timers', async () => {
+    vi.useFakeTimers();
+    const storage = new MemoryStorage();
+    render(<NameForm storage={storage} />);
+    await advanceSaves();
+
+    fireEvent.change(screen.getByLabelText('name'), {
+      target: { value: 'Alice' },
+    });
+    await advanceSaves(499);
+    expect(storage.writesTo('name-form')).toEqual([]);
+
+    await advanceSaves(1);
+    expect((await readDraft('name-form', { storage }))?.data).toEqual({
+      name: 'Alice',
+    });
+  });
+
+  test('waits with real timers', async () => {
+    const storage = new MemoryStorage();
+    render(<NameForm storage={storage} />);
+
+    fireEvent.change(screen.getByLabelText('name'), {
+      target: { value: 'Bob' },
+    });
+    await advanceSaves(500);
+
+    expect((await readDraft('name-form', { storage }))?.data).toEqual({
+      name: 'Bob',
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { FieldValues } from "react-hook-form";
+import * as React from "react";
+import { createFormPersister, INITIAL_VERSION } from "./core";
+import { PersistStorage } from "./storage/types";
+import { PersistParser, Version, VersionedData } from "./parsers/types";
+
+/**
+ * A call made to a `MemoryStorage`.
+ */
+export type StorageOperation =
+  | { type: "getItem"; key: string }
+  | { type: "setItem"; key: string; value: string }
+  | { type: "removeItem"; key: string }
+  | { type: "clear" };
+
+/**
+ * An in-memory `Storage` that records the calls made to it,
+ * to pass as `storage` in tests instead of localStorage.
+ *
+ * @example
+ * const storage = new MemoryStorage();
+ * render(<Form storage={storage} />);
+ * expect(storage.operations).toContainEqual({ type: "removeItem", key: "checkout" });
+ */
+export class MemoryStorage implements Storage, PersistStorage {
+  /** The calls made so far, oldest first. */
+  readonly operations: StorageOperation[] = [];
+  private readonly items = new Map<string, string>();
+
+  constructor(items: Record<string, string> = {}) {
+    for (const [key, value] of Object.entries(items))
+      this.items.set(key, value);
+  }
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  keys(): string[] {
+    return Array.from(this.items.keys());
+  }
+
+  getItem(key: string): string | null {
+    this.operations.push({ type: "getItem", key });
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.operations.push({ type: "setItem", key, value });
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.operations.push({ type: "removeItem", key });
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.operations.push({ type: "clear" });
+    this.items.clear();
+  }
+
+  /** The values written with `setItem` to a key, oldest first. */
+  writesTo(key: string): string[] {
+    return this.operations.flatMap((operation) =>
+      operation.type === "setItem" && operation.key === key
+        ? [operation.value]
+        : []
+    );
+  }
+}
+
+/**
+ * Options for `seedDraft` and `readDraft`.
+ * Should match the options of the form, so the draft is written and read the same way.
+ */
+export interface DraftHelperOptions<T extends FieldValues> {
+  /** Defaults to localStorage. */
+  storage?: PersistStorage;
+  /** Defaults to `DEFAULT_PARSER`. */
+  parser?: PersistParser<T>;
+  /** When the draft was saved. Defaults to now. */
+  savedAt?: number;
+}
+
+const resolveStorage = (storage?: PersistStorage) => {
+  const resolved =
+    storage ??
+    (typeof window !== "undefined" ? window.localStorage : undefined);
+  if (!resolved) throw new Error("No storage: pass one in the options");
+  return resolved;
+};
+
+/**
+ * Store a draft the way `useFormPersist` does, before rendering the form.
+ *
+ * @example
+ * await seedDraft("checkout", { email: "john.doe@example.com" });
+ * render(<CheckoutForm />);
+ */
+export async function seedDraft<T extends FieldValues>(
+  key: string,
+  data: Partial<T>,
+  version: Version = INITIAL_VERSION,
+  { storage, parser, savedAt }: DraftHelperOptions<T> = {}
+): Promise<void> {
+  const persister = createFormPersister<T>({
+    key,
+    storage: resolveStorage(storage),
+    parser,
+    version,
+    // Fail the test instead of warning
+    onError: (_kind, error) => {
+      throw error;
+    }
+  });
+  await persister.save(data, { savedAt });
+}
+
+/**
+ * Read a stored draft back, as saved: without migrations or expiry checks.
+ * Resolves to `undefined` when there is none.
+ *
+ * @example
+ * await userEvent.type(screen.getByLabelText("Email"), "john.doe@example.com");
+ * expect((await readDraft("checkout"))?.data).toEqual({ email: "john.doe@example.com" });
+ */
+export async function readDraft<T extends FieldValues>(
+  key: string,
+  { storage, parser }: Omit<DraftHelperOptions<T>, "savedAt"> = {}
+): Promise<VersionedData<T> | undefined> {
+  const resolved = resolveStorage(storage);
+  const persister = createFormPersister<T>({ key, storage: resolved, parser });
+
+  const raw = await resolved.getItem(key);
+  return raw === null ? undefined : persister.parse(raw);
+}
+
+interface FakeClock {
+  tick(ms: number): unknown;
+}
+
+interface JestTimers {
+  advanceTimersByTime(ms: number): void;
+}
+
+// Vitest and Jest fake timers are installed by @sinonjs/fake-timers, which marks
+// the functions it replaces with their clock. Jest legacy timers are mocks.
+const advanceFakeTimers = (ms: number) => {
+  const clock = (setTimeout as { clock?: FakeClock }).clock;
+  if (clock) {
+    clock.tick(ms);
+    return true;
+  }
+
+  const jest = (globalThis as { jest?: JestTimers }).jest;
+  if (jest && "_isMockFunction" in setTimeout) {
+    jest.advanceTimersByTime(ms);
+    return true;
+  }
+  return false;
+};
+
+const settle = async () => {
+  // Let promise based storages and parsers finish
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+/**
+ * Let debounced and throttled saves run: advances fake timers by `ms`
+ * (Vitest or Jest, modern or legacy) or waits `ms` with real timers,
+ * then lets pending async writes settle. Runs inside React's `act` when available.
+ *
+ * @example
+ * vi.useFakeTimers();
+ * render(<Form />); // useFormPersist(form, { key: "form", debounceMs: 500 })
+ * fireEvent.change(screen.getByLabelText("Name"), { target: { value: "Alice" } });
+ * await advanceSaves(500);
+ * expect((await readDraft("form"))?.data).toEqual({ name: "Alice" });
+ */
+export async function advanceSaves(ms = 0): Promise<void> {
+  const run = async () => {
+    if (!advanceFakeTimers(ms))
+      await new Promise((resolve) => setTimeout(resolve, ms));
+    await settle();
+  };
+
+  const { act } = React as { act?: (callback: () => Promise<void>) => unknown };
+  if (act) await act(run);
+  else await run();
+}